@@ -0,0 +1,112 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { ApprovalManager, findApprovalRule } from "./approval.ts";
+import type { ApprovalDecision, ApprovalRecord } from "./approval.ts";
+import { textResult, ToolRegistry } from "./tool-registry.ts";
+import type { ToolContext } from "./tool-registry.ts";
+import { JobManager } from "./job-manager.ts";
+import { ChangeJournal } from "./change-journal.ts";
+import { AuditLog } from "./audit-log.ts";
+import type { Config } from "./config.ts";
+
+const config: Config = { allowedDirectories: [] };
+
+Deno.test("findApprovalRule - ツールと引数、コマンドのサブコマンドで承認ルールを照合する", () => {
+  assertEquals(findApprovalRule("delete_file", { path: "/a" }, config), "delete_file");
+  assertEquals(findApprovalRule("remove_directory", { path: "/a" }, config), undefined);
+  assertEquals(findApprovalRule("remove_directory", { path: "/a", recursive: true }, config), "remove_directory:recursive");
+  assertEquals(findApprovalRule("update_config", { removeCommands: ["rm"] }, config), "update_config");
+  assertEquals(findApprovalRule("execute_command", { commandName: "git push --force origin" }, config), "git push");
+  assertEquals(findApprovalRule("execute_command", { commandName: "git", args: ["-v", "status"] }, config), undefined);
+  assertEquals(findApprovalRule("execute_command", { commandName: "git -C . push" }, config), "git push");
+  assertEquals(findApprovalRule("execute_command", { commandName: "git", args: ["-c", "core.pager=x", "push"] }, config), "git push");
+  assertEquals(
+    findApprovalRule("execute_command", { pipeline: [{ commandName: "echo" }, { commandName: "docker", args: ["rm", "x"] }] }, config),
+    "docker rm",
+  );
+  assertEquals(
+    findApprovalRule("execute_command", { commandName: "docker", args: ["container", "rm", "x"] }, config),
+    "docker container rm",
+  );
+  assertEquals(
+    findApprovalRule("start_command", { commandName: "npm publish" }, { allowedDirectories: [], approval: { tools: [], commands: ["npm publish"] } }),
+    "npm publish",
+  );
+});
+
+Deno.test("ApprovalManager - 承認された操作だけを実行し、確認できない場合は実行しない", async () => {
+  const deleted: string[] = [];
+  const registry = new ToolRegistry([{
+    name: "delete_file",
+    description: "ファイルを削除します",
+    inputSchema: { type: "object", properties: { path: { type: "string" } } },
+    handler(params) {
+      deleted.push((params as { path: string }).path);
+      return Promise.resolve(textResult("削除しました"));
+    },
+  }]);
+  let decision: ApprovalDecision | undefined = "decline";
+  const approvals = new ApprovalManager(registry, () => Promise.resolve(decision), () => Promise.resolve(config));
+  const context: ToolContext = { jobs: new JobManager(), changes: new ChangeJournal(), audit: new AuditLog() };
+  const records: ApprovalRecord[] = [];
+  const onApproval = (record: ApprovalRecord) => records.push(record);
+
+  const declined = await approvals.call("delete_file", { path: "/a" }, context, onApproval);
+  assertEquals([declined.isError, deleted], [true, []]);
+
+  decision = "accept";
+  await approvals.call("delete_file", { path: "/b" }, context, onApproval);
+  assertEquals(deleted, ["/b"]);
+
+  // elicitationに対応していないクライアントでは、モデルが承認できないよう保留せずに拒否する
+  decision = undefined;
+  const unavailable = await approvals.call("delete_file", { path: "/c" }, context, onApproval);
+  assertEquals(
+    [unavailable.isError, (unavailable.structuredContent as { approval: string }).approval, deleted],
+    [true, "unavailable", ["/b"]],
+  );
+  assertEquals(records.map((record) => `${record.rule}:${record.decision}`), [
+    "delete_file:decline",
+    "delete_file:accept",
+    "delete_file:unavailable",
+  ]);
+});
+
+Deno.test("ApprovalManager - 承認した呼び出しには確認結果を渡し、ツールの中からも確認を求められる", async () => {
+  const seen: (ApprovalRecord | undefined)[] = [];
+  const confirmed: string[] = [];
+  const registry = new ToolRegistry([{
+    name: "update_config",
+    description: "設定を更新します",
+    inputSchema: { type: "object", properties: {} },
+    handler(_params, context) {
+      seen.push(context.approval);
+      return Promise.resolve(textResult("更新しました"));
+    },
+  }, {
+    name: "widen",
+    description: "権限を広げます",
+    inputSchema: { type: "object", properties: {} },
+    async handler(_params, context) {
+      confirmed.push(await context.confirm!("widen:confirm", "権限を広げますか？"));
+      return textResult("確認しました");
+    },
+  }]);
+  let decision: ApprovalDecision | undefined = "accept";
+  const approvals = new ApprovalManager(registry, () => Promise.resolve(decision), () => Promise.resolve(config));
+  const context: ToolContext = { jobs: new JobManager(), changes: new ChangeJournal(), audit: new AuditLog() };
+  const records: ApprovalRecord[] = [];
+  const onApproval = (record: ApprovalRecord) => records.push(record);
+
+  await approvals.call("update_config", {}, context, onApproval);
+  assertEquals(seen.map((approval) => `${approval?.rule}:${approval?.decision}`), ["update_config:accept"]);
+
+  await approvals.call("widen", {}, context, onApproval);
+  decision = undefined;
+  await approvals.call("widen", {}, context, onApproval);
+  assertEquals(confirmed, ["accept", "unavailable"]);
+  assertEquals(records.map((record) => `${record.rule}:${record.decision}`), [
+    "update_config:accept",
+    "widen:confirm:accept",
+    "widen:confirm:unavailable",
+  ]);
+});
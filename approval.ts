@@ -0,0 +1,199 @@
+import * as path from "@std/path";
+import { readConfig } from "./config.ts";
+import type { Config } from "./config.ts";
+import { positionalArgs } from "./command-policy.ts";
+import { tokenizeCommand } from "./shell-tokenizer.ts";
+import { textResult } from "./tool-registry.ts";
+import type { ToolContext, ToolRegistry, ToolResult } from "./tool-registry.ts";
+
+// 承認が必要なツール (「ツール名:引数名」は引数がtrueの場合だけ)
+export const DEFAULT_APPROVAL_TOOLS = ["delete_file", "remove_directory:recursive", "update_config"];
+// 承認が必要なコマンド (「コマンド名 サブコマンド」のように先頭から順に引数を指定できる)
+// 別名のあるサブコマンドは別名ごとにルールが必要 (docker rm と docker container rm など)
+export const DEFAULT_APPROVAL_COMMANDS = ["git push", "docker rm", "docker container rm"];
+const DEFAULT_APPROVAL_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * ユーザーの応答 (accept: 承認 / decline: 拒否 / cancel: 応答せずに閉じた)
+ */
+export type ApprovalDecision = "accept" | "decline" | "cancel";
+
+/**
+ * 承認ルールに一致した呼び出しの確認結果 (監査ログに記録する)
+ */
+export interface ApprovalRecord {
+  // 一致した承認ルール
+  rule: string;
+  // unavailable: クライアントがユーザーに確認できなかった
+  decision: ApprovalDecision | "unavailable";
+}
+
+/**
+ * ユーザーに承認を求める関数 (クライアントが対応していない場合はundefinedを返す)
+ */
+export type ApprovalPrompt = (
+  message: string,
+  options: { signal?: AbortSignal; timeoutMs: number }
+) => Promise<ApprovalDecision | undefined>;
+
+/**
+ * ツールの引数から実行するコマンドの各段の引数 (コマンド名を含む) を取り出す
+ */
+function commandStages(args: Record<string, unknown>): string[][] {
+  const stages = Array.isArray(args.pipeline)
+    ? args.pipeline as { commandName?: unknown; args?: unknown }[]
+    : [{ commandName: args.commandName, args: args.args }];
+  const result: string[][] = [];
+  for (const stage of stages) {
+    if (typeof stage?.commandName !== "string") {
+      continue;
+    }
+    let parts: string[];
+    try {
+      parts = tokenizeCommand(stage.commandName.trim());
+    } catch {
+      // 解釈できないコマンドは実行時にエラーになる
+      continue;
+    }
+    const extraArgs = Array.isArray(stage.args) ? stage.args.filter((arg): arg is string => typeof arg === "string") : [];
+    result.push([...parts, ...extraArgs]);
+  }
+  return result;
+}
+
+/**
+ * コマンドの引数がルール (「git push」など) に一致するか判定する
+ *
+ * 2語目以降はオプションでない引数と先頭から順に照合する (「git -C . push」の「.」のような
+ * グローバルオプションの値は読み飛ばす)。
+ */
+function matchesCommandRule(argv: string[], rule: string): boolean {
+  const [command, ...subcommands] = rule.trim().split(/\s+/);
+  if (argv.length === 0 || path.basename(argv[0]) !== command) {
+    return false;
+  }
+  const positional = positionalArgs(command, argv.slice(1));
+  return subcommands.every((subcommand, index) => positional[index] === subcommand);
+}
+
+/**
+ * ツールの呼び出しに一致する承認ルールを返す (承認が不要な場合はundefined)
+ */
+export function findApprovalRule(tool: string, args: Record<string, unknown>, config: Config): string | undefined {
+  for (const rule of config.approval?.tools ?? DEFAULT_APPROVAL_TOOLS) {
+    const [name, argument] = rule.split(":");
+    if (name === tool && (argument === undefined || args[argument] === true)) {
+      return rule;
+    }
+  }
+  for (const argv of commandStages(args)) {
+    const rule = (config.approval?.commands ?? DEFAULT_APPROVAL_COMMANDS).find((rule) => matchesCommandRule(argv, rule));
+    if (rule !== undefined) {
+      return rule;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 承認を求めるメッセージに使う、ツールの呼び出しの説明
+ */
+function describeCall(tool: string, args: Record<string, unknown>): string {
+  return `${tool} ${JSON.stringify(args)}`;
+}
+
+/**
+ * 承認されなかったことをモデルに伝える結果
+ */
+function deniedResult(
+  message: string,
+  tool: string,
+  args: Record<string, unknown>,
+  decision: ApprovalRecord["decision"]
+): ToolResult {
+  return { ...textResult(message, { approval: decision, tool, arguments: args }), isError: true };
+}
+
+/**
+ * 危険な操作の実行前にユーザーの承認を求めるクラス
+ *
+ * クライアントがelicitationに対応している場合はその場で確認し、承認された場合だけ実行する。
+ * 確認できない場合は、モデルが自分で承認できないよう保留せずに拒否する。
+ */
+export class ApprovalManager {
+  constructor(
+    private readonly tools: ToolRegistry,
+    private readonly prompt?: ApprovalPrompt,
+    private readonly readConfigFn: () => Promise<Config> = readConfig
+  ) {}
+
+  private async timeoutMs(): Promise<number> {
+    return (await this.readConfigFn()).approval?.timeoutMs ?? DEFAULT_APPROVAL_TIMEOUT_MS;
+  }
+
+  /**
+   * ユーザーに確認を求め、確認できなかった場合はunavailableを返す
+   */
+  private async ask(message: string, signal?: AbortSignal): Promise<ApprovalRecord["decision"]> {
+    const timeoutMs = await this.timeoutMs();
+    try {
+      return await this.prompt?.(message, { signal, timeoutMs }) ?? "unavailable";
+    } catch (error) {
+      // 確認できなかった場合は実行しない
+      console.error("承認の確認に失敗:", error);
+      return "unavailable";
+    }
+  }
+
+  /**
+   * 承認ルールを確認してからツールを実行する
+   *
+   * 承認ルールに一致した場合や、ツールがcontext.confirmで確認を求めた場合は、確認結果をonApprovalに渡す。
+   * ユーザーが承認して実行したツールには、その確認結果をcontext.approvalとして渡す。
+   */
+  async call(
+    tool: string,
+    args: Record<string, unknown>,
+    context: ToolContext,
+    onApproval?: (approval: ApprovalRecord) => void
+  ): Promise<ToolResult> {
+    const toolContext: ToolContext = {
+      ...context,
+      confirm: async (rule, message) => {
+        const decision = await this.ask(message, context.signal);
+        onApproval?.({ rule, decision });
+        return decision;
+      },
+    };
+    const rule = findApprovalRule(tool, args, await this.readConfigFn());
+    if (rule === undefined) {
+      return await this.tools.call(tool, args, toolContext);
+    }
+
+    const decision = await this.ask(
+      `次の操作を実行しますか？ (承認ルール: ${rule})\n${describeCall(tool, args)}`,
+      context.signal,
+    );
+    onApproval?.({ rule, decision });
+
+    switch (decision) {
+      case "accept":
+        return await this.tools.call(tool, args, { ...toolContext, approval: { rule, decision } });
+      case "decline":
+        return deniedResult(`ユーザーが操作を拒否しました: ${tool}`, tool, args, decision);
+      case "cancel":
+        return deniedResult(`ユーザーが確認を閉じたため実行しませんでした: ${tool}`, tool, args, decision);
+    }
+
+    return deniedResult(
+      [
+        `この操作はユーザーの承認が必要ですが、確認できなかったため実行しませんでした (承認ルール: ${rule})`,
+        describeCall(tool, args),
+        "必要な場合は、ユーザーに直接実行するか、elicitationに対応したクライアントを使うよう依頼してください。",
+      ].join("\n"),
+      tool,
+      args,
+      "unavailable",
+    );
+  }
+}
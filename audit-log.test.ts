@@ -0,0 +1,56 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import * as path from "@std/path";
+import { AuditLog, createAuditEntry, DEFAULT_AUDIT_REDACT, redactArguments } from "./audit-log.ts";
+import { textResult } from "./tool-registry.ts";
+import type { Config } from "./config.ts";
+
+Deno.test("redactArguments - 名前が一致する引数を伏せ字にし、長い文字列を切り詰める", () => {
+  assertEquals(
+    redactArguments(
+      { command: "curl", env: { GITHUB_TOKEN: "abc", LANG: "C" }, content: "x".repeat(1005) },
+      DEFAULT_AUDIT_REDACT,
+    ),
+    { command: "curl", env: { GITHUB_TOKEN: "[REDACTED]", LANG: "C" }, content: `${"x".repeat(1000)}...(1005文字)` },
+  );
+});
+
+Deno.test("AuditLog - 呼び出しを記録し、ローテーションしたファイルも含めて新しい順に検索する", async () => {
+  const dir = await Deno.makeTempDir();
+  const file = path.join(dir, "audit.jsonl");
+  const config: Config = { allowedDirectories: [], audit: { file, maxBytes: 100, maxFiles: 2, redact: ["password"] } };
+  const audit = new AuditLog(() => Promise.resolve(config));
+  try {
+    const startedAt = Date.now();
+    const commandResult = { ...textResult("", { exitCode: 1 }), isError: true };
+    await audit.record(createAuditEntry("execute_command", { command: "ls missing" }, startedAt, { result: commandResult }));
+    await audit.record(createAuditEntry("write_file", { path: "/a.txt", password: "x" }, startedAt, { result: textResult("ok") }));
+    await audit.record(
+      createAuditEntry("delete_file", { path: "/b.txt" }, startedAt, { error: new Error("拒否されました") }, {
+        rule: "delete_file",
+        decision: "accept",
+      }),
+    );
+
+    // 1件ごとにローテーションされる
+    assertEquals(await Array.fromAsync(Deno.readDir(dir)).then((entries) => entries.map((e) => e.name).sort()), [
+      "audit.jsonl",
+      "audit.jsonl.1",
+      "audit.jsonl.2",
+    ]);
+
+    const entries = await audit.query();
+    assertEquals(entries.map((entry) => [entry.tool, entry.outcome]), [
+      ["delete_file", "error"],
+      ["write_file", "success"],
+      ["execute_command", "error"],
+    ]);
+    assertEquals(entries[1].arguments, { path: "/a.txt", password: "[REDACTED]" });
+    assertEquals(entries[2].exitCode, 1);
+    assertEquals(`${entries[0].approval?.rule}:${entries[0].approval?.decision}`, "delete_file:accept");
+
+    assertEquals((await audit.query({ contains: "LS MISSING" })).map((entry) => entry.tool), ["execute_command"]);
+    assertEquals((await audit.query({ outcome: "error", limit: 1 })).map((entry) => entry.tool), ["delete_file"]);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,244 @@
+import * as path from "@std/path";
+import { getHomeDirectory, readConfig } from "./config.ts";
+import type { Config } from "./config.ts";
+import { matchesEnvPattern } from "./command-env.ts";
+import type { ToolResult } from "./tool-registry.ts";
+import type { ApprovalRecord } from "./approval.ts";
+
+/**
+ * 監査ログの1件 (JSON Linesの1行)
+ */
+export interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  // 伏せ字にした引数
+  arguments: Record<string, unknown>;
+  outcome: "success" | "error";
+  // コマンドを実行したツールの終了コード
+  exitCode?: number;
+  durationMs: number;
+  error?: string;
+  // 承認ルールに一致した呼び出しの確認結果
+  approval?: ApprovalRecord;
+}
+
+/**
+ * query_audit_logの検索条件
+ */
+export interface AuditQuery {
+  tool?: string;
+  // 引数やエラーメッセージに含まれる文字列 (大文字小文字を区別しない)
+  contains?: string;
+  outcome?: AuditEntry["outcome"];
+  // ISO 8601形式の日時の範囲
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+// 引数名がこのパターンに一致する値は記録しない
+export const DEFAULT_AUDIT_REDACT = [
+  "*TOKEN*", "*SECRET*", "*PASSWORD*", "*PASSWD*", "*CREDENTIAL*", "*API_KEY*", "*APIKEY*", "*PRIVATE_KEY*",
+  "AUTHORIZATION",
+];
+
+const REDACTED = "[REDACTED]";
+// 書き込む内容などの長い文字列は先頭だけを記録する
+const MAX_STRING_LENGTH = 1000;
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 5;
+const DEFAULT_QUERY_LIMIT = 50;
+
+/**
+ * 監査ログのデフォルトのパス ($XDG_STATE_HOME/mcp-cmdex/audit.jsonl)
+ */
+export function getDefaultAuditLogFile(): string {
+  const stateDir = Deno.env.get("XDG_STATE_HOME") || path.join(getHomeDirectory(), ".local", "state");
+  return path.join(stateDir, "mcp-cmdex", "audit.jsonl");
+}
+
+/**
+ * 引数のうち、名前がパターンに一致する値を伏せ字にし、長い文字列を切り詰める
+ */
+export function redactArguments(value: unknown, patterns: string[]): unknown {
+  if (typeof value === "string") {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}...(${value.length}文字)`
+      : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactArguments(item, patterns));
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        matchesEnvPattern(key, patterns) ? REDACTED : redactArguments(item, patterns),
+      ]),
+    );
+  }
+  return value;
+}
+
+/**
+ * ツールの呼び出し結果から監査ログの1件を作る (引数の伏せ字は記録時に行う)
+ */
+export function createAuditEntry(
+  tool: string,
+  args: Record<string, unknown>,
+  startedAt: number,
+  outcome: { result: ToolResult } | { error: unknown },
+  approval?: ApprovalRecord
+): AuditEntry {
+  const entry: AuditEntry = {
+    timestamp: new Date(startedAt).toISOString(),
+    tool,
+    arguments: args,
+    outcome: "error" in outcome || outcome.result.isError ? "error" : "success",
+    durationMs: Date.now() - startedAt,
+  };
+  if ("error" in outcome) {
+    entry.error = outcome.error instanceof Error ? outcome.error.message : String(outcome.error);
+  } else {
+    const exitCode = (outcome.result.structuredContent as { exitCode?: unknown } | undefined)?.exitCode;
+    if (typeof exitCode === "number") {
+      entry.exitCode = exitCode;
+    }
+  }
+  if (approval !== undefined) {
+    entry.approval = approval;
+  }
+  return entry;
+}
+
+function matchesQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  if (query.tool !== undefined && entry.tool !== query.tool) {
+    return false;
+  }
+  if (query.outcome !== undefined && entry.outcome !== query.outcome) {
+    return false;
+  }
+  const time = Date.parse(entry.timestamp);
+  if (query.since !== undefined && time < Date.parse(query.since)) {
+    return false;
+  }
+  if (query.until !== undefined && time > Date.parse(query.until)) {
+    return false;
+  }
+  if (query.contains !== undefined) {
+    const text = `${JSON.stringify(entry.arguments)} ${entry.error ?? ""}`.toLowerCase();
+    return text.includes(query.contains.toLowerCase());
+  }
+  return true;
+}
+
+/**
+ * ツールの呼び出しを追記専用のJSON Linesファイルに記録するクラス
+ *
+ * ファイルが maxBytes を超える場合は audit.jsonl.1, audit.jsonl.2 ... に順に移し、maxFiles を超えた古いものは削除する。
+ * 記録に失敗してもツールの呼び出しは失敗させない。
+ */
+export class AuditLog {
+  // 書き込みとローテーションを順番に行うための待ち行列
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly readConfigFn: () => Promise<Config> = readConfig) {}
+
+  private async settings() {
+    const audit = (await this.readConfigFn()).audit;
+    return {
+      enabled: audit?.enabled ?? true,
+      file: audit?.file ?? getDefaultAuditLogFile(),
+      redact: audit?.redact ?? DEFAULT_AUDIT_REDACT,
+      maxBytes: audit?.maxBytes ?? DEFAULT_MAX_BYTES,
+      maxFiles: audit?.maxFiles ?? DEFAULT_MAX_FILES,
+    };
+  }
+
+  /**
+   * ツールの呼び出しを記録する
+   */
+  record(entry: AuditEntry): Promise<void> {
+    this.writing = this.writing.then(async () => {
+      const settings = await this.settings();
+      if (!settings.enabled) {
+        return;
+      }
+      const line = `${JSON.stringify({
+        ...entry,
+        arguments: redactArguments(entry.arguments, settings.redact),
+      })}\n`;
+      await Deno.mkdir(path.dirname(settings.file), { recursive: true });
+      await this.rotateIfNeeded(settings.file, new TextEncoder().encode(line).length, settings);
+      await Deno.writeTextFile(settings.file, line, { append: true, create: true, mode: 0o600 });
+    }).catch((error) => {
+      console.error("監査ログの記録に失敗:", error);
+    });
+    return this.writing;
+  }
+
+  private async rotateIfNeeded(
+    file: string,
+    incomingBytes: number,
+    settings: { maxBytes: number; maxFiles: number }
+  ): Promise<void> {
+    let size: number;
+    try {
+      size = (await Deno.stat(file)).size;
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return;
+      }
+      throw error;
+    }
+    if (size === 0 || size + incomingBytes <= settings.maxBytes) {
+      return;
+    }
+    await Deno.remove(`${file}.${settings.maxFiles}`).catch(() => {});
+    for (let i = settings.maxFiles - 1; i >= 1; i--) {
+      await Deno.rename(`${file}.${i}`, `${file}.${i + 1}`).catch(() => {});
+    }
+    await Deno.rename(file, `${file}.1`);
+  }
+
+  /**
+   * 記録を新しい順に検索する (ローテーションしたファイルも対象にする)
+   */
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    await this.writing;
+    const settings = await this.settings();
+    const limit = query.limit ?? DEFAULT_QUERY_LIMIT;
+    const entries: AuditEntry[] = [];
+    const files = [settings.file, ...Array.from({ length: settings.maxFiles }, (_, i) => `${settings.file}.${i + 1}`)];
+    for (const file of files) {
+      let content: string;
+      try {
+        content = await Deno.readTextFile(file);
+      } catch (error) {
+        if (error instanceof Deno.errors.NotFound) {
+          continue;
+        }
+        throw error;
+      }
+      for (const line of content.split("\n").reverse()) {
+        if (line.trim() === "") {
+          continue;
+        }
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          // 書き込み途中で終了した行などは読み飛ばす
+          continue;
+        }
+        if (matchesQuery(entry, query)) {
+          entries.push(entry);
+          if (entries.length >= limit) {
+            return entries;
+          }
+        }
+      }
+    }
+    return entries;
+  }
+}
@@ -0,0 +1,58 @@
+import type { AuditEntry, AuditQuery } from "./audit-log.ts";
+import { textResult } from "./tool-registry.ts";
+import type { ToolDefinition } from "./tool-registry.ts";
+
+/**
+ * 監査ログの1件を1行のテキストに整形する
+ */
+function formatAuditEntry(entry: AuditEntry): string {
+  const exitCode = entry.exitCode !== undefined ? ` 終了コード: ${entry.exitCode}` : "";
+  const error = entry.error !== undefined ? ` エラー: ${entry.error}` : "";
+  return `${entry.timestamp} ${entry.tool} [${entry.outcome}] ${entry.durationMs}ms${exitCode}${error} ${JSON.stringify(entry.arguments)}`;
+}
+
+// 監査ログを扱うツール
+export const auditTools: ToolDefinition[] = [
+  {
+    name: "query_audit_log",
+    description: "ツールの呼び出しを記録した監査ログを新しい順に検索します",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tool: {
+          type: "string",
+          description: "ツール名で絞り込みます",
+        },
+        contains: {
+          type: "string",
+          description: "引数やエラーメッセージに含まれる文字列で絞り込みます (大文字小文字を区別しません)",
+        },
+        outcome: {
+          type: "string",
+          enum: ["success", "error"],
+          description: "結果で絞り込みます",
+        },
+        since: {
+          type: "string",
+          description: "この日時以降の記録に絞り込みます (ISO 8601形式)",
+        },
+        until: {
+          type: "string",
+          description: "この日時以前の記録に絞り込みます (ISO 8601形式)",
+        },
+        limit: {
+          type: "number",
+          description: "返す件数の上限",
+          default: 50,
+        },
+      },
+    },
+    async handler(params, context) {
+      const entries = await context.audit.query(params as AuditQuery);
+      return textResult(
+        entries.length > 0 ? entries.map(formatAuditEntry).join("\n") : "一致する記録はありません",
+        { entries },
+      );
+    },
+  },
+];
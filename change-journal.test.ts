@@ -0,0 +1,129 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import * as path from "@std/path";
+import { atomicWriteFile, ChangeJournal } from "./change-journal.ts";
+import type { Config } from "./config.ts";
+
+async function exists(target: string): Promise<boolean> {
+  try {
+    await Deno.lstat(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 作業用ディレクトリとバックアップ領域を用意してテストを実行する
+ */
+async function withJournal(fn: (journal: ChangeJournal, dir: string) => Promise<void>) {
+  const dir = await Deno.makeTempDir();
+  const backupDir = await Deno.makeTempDir();
+  const config: Config = { allowedDirectories: [dir], backup: { directory: backupDir } };
+  try {
+    await fn(new ChangeJournal(() => Promise.resolve(config)), dir);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+    await Deno.remove(backupDir, { recursive: true });
+  }
+}
+
+Deno.test({
+  name: "atomicWriteFile - 既存ファイルのパーミッションを引き継いで置き換える",
+  ignore: Deno.build.os === "windows",
+  fn: async () => {
+    const file = await Deno.makeTempFile();
+    try {
+      await Deno.writeTextFile(file, "hello");
+      await Deno.chmod(file, 0o640);
+      await atomicWriteFile(file, " world", { append: true });
+      assertEquals(await Deno.readTextFile(file), "hello world");
+      assertEquals((await Deno.stat(file)).mode! & 0o777, 0o640);
+      // 一時ファイルが残っていない
+      assertEquals((await Array.fromAsync(Deno.readDir(path.dirname(file))))
+        .some((entry) => entry.name.startsWith(`.${path.basename(file)}.`)), false);
+    } finally {
+      await Deno.remove(file);
+    }
+  },
+});
+
+Deno.test("ChangeJournal - 上書きと新規作成を取り消す", async () => {
+  await withJournal(async (journal, dir) => {
+    const existing = path.join(dir, "a.txt");
+    const created = path.join(dir, "b.txt");
+    await Deno.writeTextFile(existing, "before");
+
+    await journal.writeFile("write_file", existing, "after");
+    await journal.writeFile("write_file", created, "new");
+    assertEquals(journal.list().map((change) => change.description), [`作成: ${created}`, `上書き: ${existing}`]);
+
+    await journal.undoLast();
+    assertEquals(await exists(created), false);
+    await journal.undoLast();
+    assertEquals(await Deno.readTextFile(existing), "before");
+    assertEquals(journal.list(), []);
+  });
+});
+
+Deno.test("ChangeJournal - 削除・移動・ディレクトリ作成を取り消す", async () => {
+  await withJournal(async (journal, dir) => {
+    const file = path.join(dir, "a.txt");
+    const moved = path.join(dir, "moved.txt");
+    await Deno.writeTextFile(file, "content");
+
+    await journal.remove("delete_file", file);
+    assertEquals(await exists(file), false);
+    await journal.undoLast();
+    assertEquals(await Deno.readTextFile(file), "content");
+
+    await journal.move("move_file", file, moved);
+    await journal.undoLast();
+    assertEquals([await exists(file), await exists(moved)], [true, false]);
+
+    await journal.createDirectory("create_directory", path.join(dir, "x", "y"), { recursive: true });
+    await journal.undoLast();
+    assertEquals(await exists(path.join(dir, "x")), false);
+  });
+});
+
+Deno.test("ChangeJournal - 変更後に更新されたファイルはforceを指定しない限り取り消さない", async () => {
+  await withJournal(async (journal, dir) => {
+    const file = path.join(dir, "a.txt");
+    await Deno.writeTextFile(file, "before");
+    await journal.writeFile("write_file", file, "after");
+    await Deno.utime(file, new Date(), new Date(Date.now() + 60_000));
+
+    let message = "";
+    try {
+      await journal.undoLast();
+    } catch (error) {
+      message = error instanceof Error ? error.message : String(error);
+    }
+    assertEquals(message.includes("変更後に更新されているため取り消せません"), true);
+
+    await journal.undoLast(true);
+    assertEquals(await Deno.readTextFile(file), "before");
+  });
+});
+
+Deno.test("ChangeJournal - ディレクトリのコピーと上書きを伴う移動を取り消す", async () => {
+  await withJournal(async (journal, dir) => {
+    const src = path.join(dir, "src");
+    await Deno.mkdir(path.join(src, "sub"), { recursive: true });
+    await Deno.writeTextFile(path.join(src, "sub", "a.txt"), "new");
+
+    const copied = await journal.copy("copy_file", src, path.join(dir, "copy"));
+    assertEquals([copied.copied, copied.directories], [1, 2]);
+    await journal.undoLast();
+    assertEquals(await exists(path.join(dir, "copy")), false);
+
+    const dest = path.join(dir, "dest");
+    await Deno.mkdir(path.join(dest, "sub"), { recursive: true });
+    await Deno.writeTextFile(path.join(dest, "sub", "a.txt"), "old");
+    await journal.move("move_file", src, dest, { conflict: "overwrite" });
+    assertEquals([await exists(src), await Deno.readTextFile(path.join(dest, "sub", "a.txt"))], [false, "new"]);
+    await journal.undoLast();
+    assertEquals(await Deno.readTextFile(path.join(src, "sub", "a.txt")), "new");
+    assertEquals(await Deno.readTextFile(path.join(dest, "sub", "a.txt")), "old");
+  });
+});
@@ -0,0 +1,497 @@
+import * as path from "@std/path";
+import { ErrorCode, McpError } from "npm:@modelcontextprotocol/sdk/types.js";
+import { readConfig } from "./config.ts";
+import type { Config } from "./config.ts";
+import { copyPath, movePath, summarizeTransfer } from "./file-transfer.ts";
+import type { TransferOptions, TransferSummary } from "./file-transfer.ts";
+
+// 取り消せる変更のデフォルトの保持数
+const DEFAULT_MAX_CHANGES = 100;
+
+/**
+ * 変更を構成する個々の操作
+ */
+interface ChangeOperation {
+  // write: 既存ファイルの上書き / create: ファイルの新規作成 / append: 既存ファイルへの追記
+  // delete: 削除 / move: 移動 / mkdir: ディレクトリの作成 / rmdir: 移動で空になったディレクトリの削除
+  type: "write" | "create" | "append" | "delete" | "move" | "mkdir" | "rmdir";
+  path: string;
+  // 追記前のファイルの長さ
+  size?: number;
+  // 移動元のパス
+  from?: string;
+  // 上書き・削除前の内容の退避先
+  backupPath?: string;
+  // 変更直後の更新日時 (取り消す前に他から更新されていないかの確認に使う)
+  mtime?: number | null;
+}
+
+/**
+ * 変更の記録
+ */
+export interface ChangeRecord {
+  id: number;
+  tool: string;
+  description: string;
+  timestamp: string;
+}
+
+interface JournalEntry extends ChangeRecord {
+  operations: ChangeOperation[];
+}
+
+async function exists(target: string): Promise<Deno.FileInfo | undefined> {
+  try {
+    return await Deno.lstat(target);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+async function getMtime(target: string): Promise<number | null> {
+  return (await Deno.lstat(target)).mtime?.getTime() ?? null;
+}
+
+/**
+ * ファイルと同じディレクトリに作る一時ファイルのパスを返す (renameで置き換えられるようにする)
+ */
+export function tempPathFor(filePath: string): string {
+  return path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${crypto.randomUUID().slice(0, 8)}.tmp`,
+  );
+}
+
+/**
+ * 一時ファイルの内容でファイルを置き換えるか末尾に追記し、一時ファイルを削除する
+ *
+ * 置き換えはrenameで行うため、ファイルが途中まで書かれた状態にならない。
+ */
+export async function commitTempFile(
+  tempPath: string,
+  filePath: string,
+  options: { append?: boolean } = {}
+): Promise<void> {
+  try {
+    const current = await exists(filePath);
+    if (options.append && current !== undefined) {
+      const source = await Deno.open(tempPath, { read: true });
+      const target = await Deno.open(filePath, { write: true, append: true });
+      await source.readable.pipeTo(target.writable);
+      return;
+    }
+    // 既存ファイルのパーミッションを引き継ぐ
+    if (current?.mode != null && Deno.build.os !== "windows") {
+      await Deno.chmod(tempPath, current.mode & 0o7777);
+    }
+    await Deno.rename(tempPath, filePath);
+  } finally {
+    await Deno.remove(tempPath).catch(() => {});
+  }
+}
+
+/**
+ * 一時ファイルに書き込んでから置き換えることで、ファイルを途中まで書かれた状態にしない
+ */
+export async function atomicWriteFile(
+  filePath: string,
+  data: string | Uint8Array,
+  options: { append?: boolean } = {}
+): Promise<void> {
+  let content = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  let mode: number | undefined;
+  try {
+    const stat = await Deno.stat(filePath);
+    mode = stat.mode ?? undefined;
+    if (options.append) {
+      const current = await Deno.readFile(filePath);
+      const combined = new Uint8Array(current.length + content.length);
+      combined.set(current);
+      combined.set(content, current.length);
+      content = combined;
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      throw error;
+    }
+  }
+
+  const tempPath = tempPathFor(filePath);
+  try {
+    await Deno.writeFile(tempPath, content, { createNew: true });
+    // 既存ファイルのパーミッションを引き継ぐ
+    if (mode !== undefined && Deno.build.os !== "windows") {
+      await Deno.chmod(tempPath, mode & 0o7777);
+    }
+    await Deno.rename(tempPath, filePath);
+  } catch (error) {
+    await Deno.remove(tempPath).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * ファイル操作の変更を記録し、退避した内容から取り消せるようにするクラス
+ *
+ * 上書き・削除する前の内容はバックアップ領域に退避する。記録はサーバーのセッション中のみ保持する。
+ */
+export class ChangeJournal {
+  private readonly entries: JournalEntry[] = [];
+  private lastId = 0;
+  private temporaryDirectory?: string;
+
+  constructor(private readonly readConfigFn: () => Promise<Config> = readConfig) {}
+
+  /**
+   * バックアップ領域のディレクトリを返す (バックアップが無効な場合はundefined)
+   */
+  private async backupDirectory(): Promise<string | undefined> {
+    let config: Config;
+    try {
+      config = await this.readConfigFn();
+    } catch (error) {
+      console.error("バックアップ設定の読み込みに失敗:", error);
+      config = { allowedDirectories: [] };
+    }
+    if (config.backup?.enabled === false) {
+      return undefined;
+    }
+    if (config.backup?.directory !== undefined) {
+      await Deno.mkdir(config.backup.directory, { recursive: true });
+      return config.backup.directory;
+    }
+    this.temporaryDirectory ??= await Deno.makeTempDir({ prefix: "mcp-cmdex-backup-" });
+    return this.temporaryDirectory;
+  }
+
+  private async maxChanges(): Promise<number> {
+    try {
+      return (await this.readConfigFn()).backup?.maxChanges ?? DEFAULT_MAX_CHANGES;
+    } catch {
+      return DEFAULT_MAX_CHANGES;
+    }
+  }
+
+  /**
+   * 変更を記録し、保持数を超えた古い記録のバックアップを削除する
+   */
+  private async record(tool: string, description: string, operations: ChangeOperation[]): Promise<void> {
+    this.entries.push({
+      id: ++this.lastId,
+      tool,
+      description,
+      timestamp: new Date().toISOString(),
+      operations,
+    });
+    const overflow = this.entries.length - await this.maxChanges();
+    for (const entry of overflow > 0 ? this.entries.splice(0, overflow) : []) {
+      await this.discardBackups(entry);
+    }
+  }
+
+  private async discardBackups(entry: JournalEntry): Promise<void> {
+    for (const operation of entry.operations) {
+      if (operation.backupPath !== undefined) {
+        await Deno.remove(operation.backupPath, { recursive: true }).catch((error) => {
+          console.error("バックアップの削除に失敗:", error);
+        });
+      }
+    }
+  }
+
+  /**
+   * バックアップ領域に退避する先のパスを作る
+   */
+  private backupPathFor(backupDir: string, target: string): string {
+    return path.join(backupDir, `${Date.now()}-${crypto.randomUUID().slice(0, 8)}-${path.basename(target)}`);
+  }
+
+  /**
+   * ファイルを書き込む (既存のファイルは上書き前の内容を退避する)
+   */
+  async writeFile(
+    tool: string,
+    filePath: string,
+    data: string | Uint8Array,
+    options: { append?: boolean } = {}
+  ): Promise<void> {
+    const backupDir = await this.backupDirectory();
+    const existed = (await exists(filePath)) !== undefined;
+    let backupPath: string | undefined;
+    if (backupDir !== undefined && existed) {
+      backupPath = this.backupPathFor(backupDir, filePath);
+      await Deno.copyFile(filePath, backupPath);
+    }
+
+    await atomicWriteFile(filePath, data, options);
+
+    if (backupDir !== undefined) {
+      await this.record(tool, `${existed ? "上書き" : "作成"}: ${filePath}`, [
+        { type: existed ? "write" : "create", path: filePath, backupPath, mtime: await getMtime(filePath) },
+      ]);
+    }
+  }
+
+  /**
+   * 一時ファイルの内容でファイルを置き換えるか末尾に追記する
+   *
+   * 置き換えは上書き前の内容を退避し、追記は内容を退避せずに追記前の長さを記録して取り消し時に切り詰める。
+   */
+  async commitFile(
+    tool: string,
+    tempPath: string,
+    filePath: string,
+    options: { append?: boolean } = {}
+  ): Promise<void> {
+    const backupDir = await this.backupDirectory();
+    const current = await exists(filePath);
+    const appending = options.append === true && current !== undefined;
+    let backupPath: string | undefined;
+    if (backupDir !== undefined && current !== undefined && !appending) {
+      backupPath = this.backupPathFor(backupDir, filePath);
+      await Deno.copyFile(filePath, backupPath);
+    }
+
+    await commitTempFile(tempPath, filePath, options);
+
+    if (backupDir !== undefined) {
+      const mtime = await getMtime(filePath);
+      await this.record(
+        tool,
+        `${appending ? "追記" : current !== undefined ? "上書き" : "作成"}: ${filePath}`,
+        [
+          appending
+            ? { type: "append", path: filePath, size: current!.size, mtime }
+            : { type: current !== undefined ? "write" : "create", path: filePath, backupPath, mtime },
+        ],
+      );
+    }
+  }
+
+  /**
+   * ファイルまたはディレクトリを削除する (バックアップが有効な場合はバックアップ領域に移動する)
+   */
+  async remove(tool: string, target: string, options: { recursive?: boolean } = {}): Promise<void> {
+    const backupDir = await this.backupDirectory();
+    if (backupDir === undefined) {
+      await Deno.remove(target, options);
+      return;
+    }
+
+    const stat = await Deno.lstat(target);
+    if (stat.isDirectory && !options.recursive) {
+      for await (const _entry of Deno.readDir(target)) {
+        throw new Error(`ディレクトリが空ではありません: ${target}`);
+      }
+    }
+    const backupPath = this.backupPathFor(backupDir, target);
+    await movePath(target, backupPath);
+    await this.record(tool, `削除: ${target}`, [{ type: "delete", path: target, backupPath }]);
+  }
+
+  /**
+   * 上書きする前のファイルをバックアップ領域に退避する関数を作る (退避先はbackupsに記録する)
+   */
+  private backupBeforeOverwrite(
+    backupDir: string | undefined,
+    backups: Map<string, string>
+  ): (target: string) => Promise<void> {
+    return async (target) => {
+      if (backupDir !== undefined) {
+        const backupPath = this.backupPathFor(backupDir, target);
+        await Deno.copyFile(target, backupPath);
+        backups.set(target, backupPath);
+      }
+    };
+  }
+
+  /**
+   * ファイルまたはディレクトリを再帰的にコピーする (上書きするファイルは上書き前の内容を退避する)
+   */
+  async copy(
+    tool: string,
+    source: string,
+    destination: string,
+    options: Omit<TransferOptions, "beforeOverwrite"> = {}
+  ): Promise<TransferSummary> {
+    const backupDir = await this.backupDirectory();
+    const backups = new Map<string, string>();
+    const events = await copyPath(source, destination, {
+      ...options,
+      beforeOverwrite: this.backupBeforeOverwrite(backupDir, backups),
+    });
+
+    if (backupDir !== undefined) {
+      const operations: ChangeOperation[] = [];
+      for (const event of events) {
+        if (event.type === "mkdir") {
+          operations.push({ type: "mkdir", path: event.path });
+        } else if (event.type === "copy") {
+          operations.push({
+            type: event.overwritten ? "write" : "create",
+            path: event.path,
+            backupPath: backups.get(event.path),
+            mtime: await getMtime(event.path),
+          });
+        }
+      }
+      if (operations.length > 0) {
+        await this.record(tool, `コピー: ${source} -> ${destination}`, operations);
+      }
+    }
+    return summarizeTransfer(events);
+  }
+
+  /**
+   * ファイルまたはディレクトリを移動する (上書きするファイルは上書き前の内容を退避する)
+   */
+  async move(
+    tool: string,
+    source: string,
+    destination: string,
+    options: Omit<TransferOptions, "beforeOverwrite"> = {}
+  ): Promise<TransferSummary> {
+    const backupDir = await this.backupDirectory();
+    const backups = new Map<string, string>();
+    const events = await movePath(source, destination, {
+      ...options,
+      beforeOverwrite: this.backupBeforeOverwrite(backupDir, backups),
+    });
+
+    if (backupDir !== undefined) {
+      const operations = events.flatMap((event): ChangeOperation[] =>
+        event.type === "move"
+          ? [{ type: "move", from: event.from, path: event.path, backupPath: backups.get(event.path) }]
+          : event.type === "mkdir" || event.type === "rmdir"
+          ? [{ type: event.type, path: event.path }]
+          : []
+      );
+      if (operations.length > 0) {
+        await this.record(tool, `移動: ${source} -> ${destination}`, operations);
+      }
+    }
+    return summarizeTransfer(events);
+  }
+
+  /**
+   * ディレクトリを作成する
+   */
+  async createDirectory(tool: string, dirPath: string, options: { recursive?: boolean } = {}): Promise<void> {
+    // 取り消し時に削除するため、新たに作成されるディレクトリを深い順に求める
+    const created: string[] = [];
+    for (let current = dirPath; (await exists(current)) === undefined; current = path.dirname(current)) {
+      created.push(current);
+      if (!options.recursive || path.dirname(current) === current) {
+        break;
+      }
+    }
+
+    await Deno.mkdir(dirPath, options);
+
+    if ((await this.backupDirectory()) !== undefined) {
+      // 取り消し時は記録と逆の順に処理するため、浅い順に記録する
+      await this.record(
+        tool,
+        `ディレクトリ作成: ${dirPath}`,
+        created.reverse().map((dir) => ({ type: "mkdir", path: dir })),
+      );
+    }
+  }
+
+  /**
+   * 記録されている変更を新しい順に返す
+   */
+  list(): ChangeRecord[] {
+    return this.entries.map(({ id, tool, description, timestamp }) => ({ id, tool, description, timestamp })).reverse();
+  }
+
+  /**
+   * 最後の変更を取り消す
+   *
+   * 変更後に他から更新されたファイルは、force を指定しない限り取り消さない。
+   */
+  async undoLast(force = false): Promise<ChangeRecord> {
+    const entry = this.entries[this.entries.length - 1];
+    if (!entry) {
+      throw new McpError(ErrorCode.InvalidRequest, "取り消せる変更がありません");
+    }
+
+    // 取り消しを始める前にすべての操作を取り消せるか確認する
+    if (!force) {
+      for (const operation of entry.operations) {
+        if (
+          (operation.type === "write" || operation.type === "create" || operation.type === "append") &&
+          operation.mtime !== undefined
+        ) {
+          const current = await exists(operation.path) ? await getMtime(operation.path) : undefined;
+          if (current !== operation.mtime) {
+            throw new McpError(
+              ErrorCode.InvalidRequest,
+              `'${operation.path}' は変更後に更新されているため取り消せません (forceをtrueにすると強制的に取り消します)`
+            );
+          }
+        }
+      }
+    }
+    for (const operation of entry.operations) {
+      const occupied = operation.type === "delete" || operation.type === "rmdir"
+        ? operation.path
+        : operation.type === "move"
+        ? operation.from
+        : undefined;
+      if (occupied !== undefined && (await exists(occupied)) !== undefined) {
+        throw new McpError(ErrorCode.InvalidRequest, `'${occupied}' が既に存在するため取り消せません`);
+      }
+    }
+
+    for (const operation of [...entry.operations].reverse()) {
+      switch (operation.type) {
+        case "create":
+          await Deno.remove(operation.path);
+          break;
+        case "write":
+          await atomicWriteFile(operation.path, await Deno.readFile(operation.backupPath!));
+          break;
+        case "append":
+          await Deno.truncate(operation.path, operation.size);
+          break;
+        case "delete":
+          await movePath(operation.backupPath!, operation.path);
+          operation.backupPath = undefined;
+          break;
+        case "move":
+          await movePath(operation.path, operation.from!);
+          if (operation.backupPath !== undefined) {
+            await atomicWriteFile(operation.path, await Deno.readFile(operation.backupPath));
+          }
+          break;
+        case "mkdir":
+          await Deno.remove(operation.path);
+          break;
+        case "rmdir":
+          await Deno.mkdir(operation.path);
+          break;
+      }
+    }
+
+    this.entries.pop();
+    await this.discardBackups(entry);
+    const { id, tool, description, timestamp } = entry;
+    return { id, tool, description, timestamp };
+  }
+
+  /**
+   * セッションの終了時に一時的なバックアップ領域を削除する
+   */
+  async dispose(): Promise<void> {
+    if (this.temporaryDirectory !== undefined) {
+      await Deno.remove(this.temporaryDirectory, { recursive: true }).catch((error) => {
+        console.error("バックアップ領域の削除に失敗:", error);
+      });
+      this.temporaryDirectory = undefined;
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { describeAllowedCommands, findExecutable } from "./command-catalog.ts";
+
+const notFound = () => Promise.resolve(undefined);
+
+Deno.test("describeAllowedCommands - 組み込みコマンドをカテゴリと説明付きで返す", async () => {
+  const commands = await describeAllowedCommands({ allowedDirectories: [], profile: "readonly" }, new Set(), notFound);
+  const ls = commands.find((info) => info.command === "ls");
+  assertEquals(ls?.category, "GNU Core Utils & BusyBox基本コマンド");
+  assertEquals(ls?.source, "default");
+  assertEquals(ls?.available, false);
+  assertEquals(typeof ls?.description, "string");
+  assertEquals(commands.some((info) => info.command === "rm"), false);
+});
+
+Deno.test("describeAllowedCommands - 設定ファイルで追加したコマンドは設定ファイルのカテゴリで返す", async () => {
+  const commands = await describeAllowedCommands(
+    {
+      allowedDirectories: [],
+      profile: "mine",
+      profiles: { mine: { extends: "none", commands: ["terraform"] } },
+      allowedCommands: { "社内ツール": ["deploy-tool"] },
+      deniedCommands: ["terraform"],
+    },
+    new Set(["ls"]),
+    (command) => Promise.resolve(command === "deploy-tool" ? "/usr/local/bin/deploy-tool" : undefined),
+  );
+  assertEquals(commands, [
+    {
+      command: "deploy-tool",
+      category: "社内ツール",
+      source: "config",
+      available: true,
+      path: "/usr/local/bin/deploy-tool",
+    },
+  ]);
+});
+
+Deno.test({
+  name: "findExecutable - PATH上の実行ファイルだけを見つける",
+  ignore: Deno.build.os === "windows",
+  fn: async () => {
+    const dir = await Deno.makeTempDir();
+    try {
+      await Deno.writeTextFile(`${dir}/tool`, "#!/bin/sh\n", { mode: 0o755 });
+      await Deno.writeTextFile(`${dir}/data`, "", { mode: 0o644 });
+      assertEquals(await findExecutable("tool", `/nonexistent:${dir}`, false), `${dir}/tool`);
+      assertEquals(await findExecutable("data", dir, false), undefined);
+      assertEquals(await findExecutable("missing", dir, false), undefined);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  },
+});
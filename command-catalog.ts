@@ -0,0 +1,125 @@
+import * as path from "@std/path";
+import type { Config } from "./config.ts";
+import { BUILTIN_COMMAND_CATEGORIES, BUILTIN_PROFILES, resolveAllowedCommands } from "./command-profiles.ts";
+
+/**
+ * 許可されたコマンドの情報を表すインターフェース
+ */
+export interface AllowedCommandInfo {
+  command: string;
+  category: string;
+  description?: string;
+  // 組み込みの許可リスト由来か、設定ファイル由来か
+  source: "default" | "config";
+  // PATH上に実行ファイルが見つかったかどうか
+  available: boolean;
+  path?: string;
+}
+
+/**
+ * PATHから実行ファイルを探し、見つかった場合はそのパスを返す
+ */
+export async function findExecutable(
+  command: string,
+  pathEnv = Deno.env.get("PATH") ?? "",
+  isWindows = Deno.build.os === "windows"
+): Promise<string | undefined> {
+  const extensions = isWindows
+    ? ["", ...(Deno.env.get("PATHEXT") ?? ".COM;.EXE;.BAT;.CMD").split(";").filter((ext) => ext.length > 0)]
+    : [""];
+  for (const dir of pathEnv.split(isWindows ? ";" : ":")) {
+    if (dir.length === 0) {
+      continue;
+    }
+    for (const ext of extensions) {
+      const candidate = path.join(dir, command + ext);
+      try {
+        const stat = await Deno.stat(candidate);
+        // Windowsには実行権限のビットがないため、ファイルであれば実行可能とみなす
+        if (stat.isFile && (isWindows || stat.mode === null || (stat.mode & 0o111) !== 0)) {
+          return candidate;
+        }
+      } catch {
+        // 存在しない候補は無視する
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 設定ファイルのプロファイルの継承をたどり、設定ファイルで追加されたコマンドをカテゴリ名付きで返す
+ */
+function collectConfigCommands(config: Config): Map<string, string> {
+  const categories = new Map<string, string>();
+  let profileName = config.profile;
+  const visited = new Set<string>();
+  while (profileName !== undefined && config.profiles?.[profileName] && !visited.has(profileName)) {
+    visited.add(profileName);
+    const profile = config.profiles[profileName];
+    for (const command of profile.commands ?? []) {
+      categories.set(command, `プロファイル '${profileName}'`);
+    }
+    profileName = profile.extends;
+  }
+  for (const [category, commands] of Object.entries(config.allowedCommands || {})) {
+    for (const command of commands) {
+      categories.set(command, category);
+    }
+  }
+  return categories;
+}
+
+/**
+ * 実際に許可されるコマンドを、カテゴリ・由来・PATH上の有無とともに一覧にする
+ *
+ * 結果は組み込みカテゴリの順、設定ファイルのカテゴリの順に並ぶ。
+ */
+export async function describeAllowedCommands(
+  config: Config,
+  defaultCommands: Set<string>,
+  findExecutableFn: (command: string) => Promise<string | undefined> = (command) => findExecutable(command)
+): Promise<AllowedCommandInfo[]> {
+  const allowed = resolveAllowedCommands(config, defaultCommands);
+  const configCommands = collectConfigCommands(config);
+
+  // 組み込みのプロファイルまたはデフォルトの許可リストに含まれるコマンドは組み込み由来とする
+  let builtinProfile = config.profile;
+  while (builtinProfile !== undefined && config.profiles?.[builtinProfile]) {
+    builtinProfile = config.profiles[builtinProfile].extends;
+  }
+  const builtinCommands = new Set(
+    config.profile === undefined ? defaultCommands : BUILTIN_PROFILES[builtinProfile ?? ""] ?? []
+  );
+
+  const entries: Omit<AllowedCommandInfo, "available" | "path">[] = [];
+  const listed = new Set<string>();
+  for (const category of BUILTIN_COMMAND_CATEGORIES) {
+    for (const command of category.commands) {
+      if (allowed.has(command) && builtinCommands.has(command) && !listed.has(command)) {
+        listed.add(command);
+        entries.push({ command, category: category.name, description: category.description, source: "default" });
+      }
+    }
+  }
+  for (const [command, category] of configCommands) {
+    if (allowed.has(command) && !listed.has(command)) {
+      listed.add(command);
+      entries.push({ command, category, source: "config" });
+    }
+  }
+  // カテゴリのない組み込みの許可リストのコマンド
+  for (const command of allowed) {
+    if (!listed.has(command)) {
+      listed.add(command);
+      entries.push({ command, category: "その他", source: "default" });
+    }
+  }
+
+  const paths = await Promise.all(entries.map((entry) => findExecutableFn(entry.command)));
+  return entries.map((entry, index) => ({
+    ...entry,
+    available: paths[index] !== undefined,
+    ...(paths[index] !== undefined ? { path: paths[index] } : {}),
+  }));
+}
@@ -0,0 +1,67 @@
+import type { EnvironmentPolicy } from "./config.ts";
+
+// サーバーの環境変数のうち、設定がない場合に子プロセスへ引き継ぐもの
+export const DEFAULT_ENV_ALLOW = [
+  "PATH", "HOME", "USER", "LOGNAME", "SHELL", "LANG", "LANGUAGE", "LC_*", "TZ", "TERM",
+  "TMPDIR", "TEMP", "TMP",
+  // Windowsでcmd.exeや一般的なツールが動作するために必要なもの
+  "SYSTEMROOT", "WINDIR", "COMSPEC", "PATHEXT", "USERPROFILE", "USERNAME", "APPDATA",
+  "LOCALAPPDATA", "PROGRAMDATA", "PROGRAMFILES", "PROGRAMFILES(X86)", "HOMEDRIVE", "HOMEPATH",
+  "NUMBER_OF_PROCESSORS", "PROCESSOR_ARCHITECTURE", "OS",
+];
+
+// 許可リストに一致しても引き継がない環境変数
+export const DEFAULT_ENV_DENY = [
+  "*TOKEN*", "*SECRET*", "*PASSWORD*", "*PASSWD*", "*CREDENTIAL*", "*API_KEY*", "*PRIVATE_KEY*",
+];
+
+// 呼び出し時に上書きすると許可リストを迂回できてしまう環境変数
+const PROTECTED_ENV = ["PATH", "PATHEXT", "COMSPEC", "LD_*", "DYLD_*"];
+
+/**
+ * 環境変数名がパターンのいずれかに一致するか判定する
+ */
+export function matchesEnvPattern(name: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => {
+    const source = pattern
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*");
+    return new RegExp(`^${source}$`, "i").test(name);
+  });
+}
+
+/**
+ * 子プロセスに渡す環境変数を組み立てる
+ *
+ * サーバーの環境変数は許可リストに一致し拒否リストに一致しないものだけを引き継ぎ、
+ * その上に呼び出し時に指定された環境変数を重ねる。
+ * 呼び出し時に指定できるのは設定ファイルの許可リストに一致する変数だけ
+ * (GIT_CONFIG_*やBASH_ENVなどでコマンドの動作を変えられないよう、設定がない場合は指定できない)。
+ */
+export function buildCommandEnv(
+  policy: EnvironmentPolicy = {},
+  overrides: Record<string, string> = {},
+  baseEnv: Record<string, string> = Deno.env.toObject()
+): Record<string, string> {
+  const allow = policy.allow ?? DEFAULT_ENV_ALLOW;
+  const deny = policy.deny ?? DEFAULT_ENV_DENY;
+
+  for (const name of Object.keys(overrides)) {
+    if (
+      !matchesEnvPattern(name, policy.allow ?? []) ||
+      matchesEnvPattern(name, PROTECTED_ENV) ||
+      matchesEnvPattern(name, deny)
+    ) {
+      throw new Error(`環境変数 '${name}' は指定できません`);
+    }
+  }
+
+  const env: Record<string, string> = {};
+  for (const [name, value] of Object.entries(baseEnv)) {
+    if (matchesEnvPattern(name, allow) && !matchesEnvPattern(name, deny)) {
+      env[name] = value;
+    }
+  }
+  return { ...env, ...overrides };
+}
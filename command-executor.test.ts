@@ -1,7 +1,18 @@
 import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
 import { McpError } from "npm:@modelcontextprotocol/sdk/types.js";
-import { executeCommand, isCommandAllowed } from "./command-executor.ts";
-import type { CommandExecutionResult } from "./command-executor.ts";
+import {
+  DEFAULT_TIMEOUT_MS,
+  decodeLimitedOutput,
+  defaultExecuteCommand,
+  executeCommand,
+  formatCommandLine,
+  isCommandAllowed,
+  readLimited,
+  resolveProcessOptions,
+} from "./command-executor.ts";
+import type { CommandExecutionResult, ProcessOptions } from "./command-executor.ts";
+import { buildCommandEnv } from "./command-env.ts";
+import { findSubcommand } from "./command-policy.ts";
 import type { Config } from "./config.ts";
 
 // テスト用のモックヘルパー関数
@@ -47,12 +58,12 @@ Deno.test("isCommandAllowed - コマンドが許可されていない場合はfa
   assertEquals(result, false);
 });
 
-Deno.test("isCommandAllowed - 設定ファイルの読み込みに失敗した場合でも許可リストにあるコマンドはtrueを返す", async () => {
+Deno.test("isCommandAllowed - 設定ファイルの読み込みに失敗した場合は許可リストにあるコマンドもfalseを返す", async () => {
   const allowedCommands = new Set(["ls", "cat"]);
   const mockReadConfig = () => Promise.reject(new Error("Config error"));
   
   const result = await isCommandAllowed("ls", allowedCommands, mockReadConfig);
-  assertEquals(result, true);
+  assertEquals(result, false);
 });
 
 Deno.test("isCommandAllowed - 設定ファイルの読み込みに失敗し許可リストにないコマンドはfalseを返す", async () => {
@@ -63,6 +74,42 @@ Deno.test("isCommandAllowed - 設定ファイルの読み込みに失敗し許
   assertEquals(result, false);
 });
 
+Deno.test("isCommandAllowed - プロファイルと拒否リストを反映して判定する", async () => {
+  const allowedCommands = new Set(["ls", "rm"]);
+  const readonly = createMockFunction<void, Config>({ allowedDirectories: [], profile: "readonly" });
+  assertEquals(await isCommandAllowed("cat", allowedCommands, readonly), true);
+  assertEquals(await isCommandAllowed("rm", allowedCommands, readonly), false);
+
+  const denied = createMockFunction<void, Config>({ allowedDirectories: [], deniedCommands: ["rm"] });
+  assertEquals(await isCommandAllowed("ls", allowedCommands, denied), true);
+  assertEquals(await isCommandAllowed("rm", allowedCommands, denied), false);
+});
+
+Deno.test("isCommandAllowed - noneプロファイルでは設定ファイルのコマンドだけを許可する", async () => {
+  const allowedCommands = new Set(["ls"]);
+  const mockReadConfig = createMockFunction<void, Config>({
+    allowedDirectories: [],
+    profile: "none",
+    allowedCommands: { "custom": ["git"] },
+  });
+  assertEquals(await isCommandAllowed("git", allowedCommands, mockReadConfig), true);
+  assertEquals(await isCommandAllowed("ls", allowedCommands, mockReadConfig), false);
+});
+
+Deno.test("isCommandAllowed - 継承したプロファイルのコマンドも許可し、未定義のプロファイルはすべて拒否する", async () => {
+  const allowedCommands = new Set(["ls"]);
+  const custom = createMockFunction<void, Config>({
+    allowedDirectories: [],
+    profile: "mine",
+    profiles: { mine: { extends: "readonly", commands: ["git"] } },
+  });
+  assertEquals(await isCommandAllowed("git", allowedCommands, custom), true);
+  assertEquals(await isCommandAllowed("cat", allowedCommands, custom), true);
+
+  const unknown = createMockFunction<void, Config>({ allowedDirectories: [], profile: "unknown" });
+  assertEquals(await isCommandAllowed("ls", allowedCommands, unknown), false);
+});
+
 // executeCommand のテスト
 Deno.test("executeCommand - コマンドを実行して結果を返す", async () => {
   let executeCalled = false;
@@ -89,6 +136,27 @@ Deno.test("executeCommand - コマンドを実行して結果を返す", async (
   assertEquals(executeCalled, true);
 });
 
+Deno.test("executeCommand - 設定ファイルを読み込めない場合は許可リストにあるコマンドも実行しない", async () => {
+  let executeCalled = false;
+  let message = "";
+  try {
+    await executeCommand({
+      commandName: "sh",
+      args: ["-c", "echo PWNED"],
+      allowedCommands: new Set(["sh"]),
+      readConfigFn: () => Promise.reject(new Error("Config error")),
+      executeCommandFn: () => {
+        executeCalled = true;
+        return Promise.resolve({ output: "", error: "" } as CommandExecutionResult);
+      },
+    });
+  } catch (error) {
+    message = error instanceof Error ? error.message : String(error);
+  }
+  assertEquals(executeCalled, false);
+  assertEquals(message.includes("設定ファイルを読み込めない"), true);
+});
+
 // 複雑なコマンドのテストケースを定義するインターフェース
 interface CommandTestCase {
   name: string;
@@ -121,7 +189,14 @@ Deno.test("executeCommand - 複雑なオプション付きコマンドを正し
       commandName: "grep 'test pattern'",
       args: ["file.txt"],
       expectedCommand: "grep",
-      expectedArgs: ["'test", "pattern'", "file.txt"]
+      expectedArgs: ["test pattern", "file.txt"]
+    },
+    {
+      name: "ダブルクォートとエスケープを含むコマンド",
+      commandName: "grep \"foo bar\" my\\ file.txt",
+      args: [],
+      expectedCommand: "grep",
+      expectedArgs: ["foo bar", "my file.txt"]
     },
     {
       name: "複数のスペースとタブを含むコマンド",
@@ -138,11 +213,11 @@ Deno.test("executeCommand - 複雑なオプション付きコマンドを正し
       expectedArgs: ["-X", "POST", "-H", "Content-Type: application/json", "https://example.com"]
     },
     {
-      name: "パイプとリダイレクトを含むコマンド（実際のシェルでは動作しないがパースのテスト）",
-      commandName: "cat file.txt | grep pattern",
+      name: "クォートされたパイプ記号を含むコマンド",
+      commandName: "grep 'a|b' file.txt",
       args: [],
-      expectedCommand: "cat",
-      expectedArgs: ["file.txt", "|", "grep", "pattern"]
+      expectedCommand: "grep",
+      expectedArgs: ["a|b", "file.txt"]
     },
     {
       name: "先頭と末尾に空白を含むコマンド",
@@ -214,6 +289,35 @@ Deno.test("executeCommand - スペースを含むコマンドを正しくパー
   assertEquals(result.output, "hello world");
 });
 
+Deno.test("executeCommand - パイプやリダイレクトを含むコマンドはエラーを投げる", async () => {
+  let executeCalled = false;
+  const mockExecuteCommandFn = (_command: string, _args: string[], _isWindows: boolean): Promise<CommandExecutionResult> => {
+    executeCalled = true;
+    return Promise.resolve({ output: "", error: "" });
+  };
+
+  const mockReadConfigFn = createMockFunction<void, Config>({
+    allowedCommands: {},
+    allowedDirectories: []
+  });
+
+  for (const commandName of ["cat file.txt | grep pattern", "echo hi > out.txt", "echo $(whoami)"]) {
+    try {
+      await executeCommand({
+        commandName,
+        allowedCommands: new Set(["cat", "echo"]),
+        readConfigFn: mockReadConfigFn,
+        executeCommandFn: mockExecuteCommandFn
+      });
+      assertEquals(true, false, `サポートされていない構文が実行されました: ${commandName}`);
+    } catch (error) {
+      assertEquals(error instanceof McpError, true);
+      assertEquals((error as McpError).message.includes("解析できません"), true);
+      assertEquals(executeCalled, false);
+    }
+  }
+});
+
 Deno.test("executeCommand - 許可されていないコマンドはエラーを投げる", async () => {
   let executeCalled = false;
   const mockExecuteCommandFn = (_command: string, _args: string[], _isWindows: boolean): Promise<CommandExecutionResult> => {
@@ -276,3 +380,383 @@ Deno.test("executeCommand - コマンド実行エラーを適切に処理する"
     }
   }
 });
+
+// コマンドルールのテスト
+Deno.test("executeCommand - allowSubcommandsにないサブコマンドはルール名付きで拒否する", async () => {
+  let executeCalled = false;
+  const mockExecuteCommandFn = (_command: string, _args: string[], _isWindows: boolean): Promise<CommandExecutionResult> => {
+    executeCalled = true;
+    return Promise.resolve({ output: "", error: "" });
+  };
+
+  const mockReadConfigFn = createMockFunction<void, Config>({
+    allowedDirectories: [],
+    commandRules: {
+      git: { allowSubcommands: ["status", "diff", "log"] }
+    }
+  });
+
+  await executeCommand({
+    commandName: "git",
+    args: ["status"],
+    allowedCommands: new Set(["git"]),
+    readConfigFn: mockReadConfigFn,
+    executeCommandFn: mockExecuteCommandFn
+  });
+  assertEquals(executeCalled, true);
+  executeCalled = false;
+
+  try {
+    await executeCommand({
+      commandName: "git push",
+      args: ["--force"],
+      allowedCommands: new Set(["git"]),
+      readConfigFn: mockReadConfigFn,
+      executeCommandFn: mockExecuteCommandFn
+    });
+    assertEquals(true, false, "拒否されるべきサブコマンドが実行されました");
+  } catch (error) {
+    assertEquals(error instanceof McpError, true);
+    assertEquals((error as McpError).message.includes("commandRules.git.allowSubcommands"), true);
+    assertEquals(executeCalled, false);
+  }
+});
+
+Deno.test("findSubcommand - 値を取るグローバルオプションを読み飛ばしてサブコマンドを取り出す", () => {
+  assertEquals(findSubcommand("git", ["-C", "/tmp", "push"]), "push");
+  assertEquals(findSubcommand("git", ["-c", "core.pager=x", "--git-dir", ".git", "push", "origin"]), "push");
+  assertEquals(findSubcommand("git", ["--git-dir=.git", "--no-pager", "push"]), "push");
+  assertEquals(findSubcommand("git", ["--", "push"]), "push");
+  assertEquals(findSubcommand("ls", ["-l", "dir"]), "dir");
+});
+
+Deno.test("executeCommand - グローバルオプションの後のサブコマンドにもルールを適用する", async () => {
+  let executeCalled = false;
+  const mockExecuteCommandFn = (_command: string, _args: string[], _isWindows: boolean): Promise<CommandExecutionResult> => {
+    executeCalled = true;
+    return Promise.resolve({ output: "", error: "" });
+  };
+
+  const mockReadConfigFn = createMockFunction<void, Config>({
+    allowedDirectories: [],
+    commandRules: {
+      git: { denySubcommands: ["push"] }
+    }
+  });
+
+  for (const args of [["-C", "/tmp", "push"], ["-c", "core.pager=x", "push"], ["--work-tree=.", "push"]]) {
+    try {
+      await executeCommand({
+        commandName: "git",
+        args,
+        allowedCommands: new Set(["git"]),
+        readConfigFn: mockReadConfigFn,
+        executeCommandFn: mockExecuteCommandFn
+      });
+      assertEquals(true, false, `拒否されるべきサブコマンドが実行されました: ${args.join(" ")}`);
+    } catch (error) {
+      assertEquals(error instanceof McpError, true);
+      assertEquals((error as McpError).message.includes("commandRules.git.denySubcommands"), true);
+    }
+  }
+  assertEquals(executeCalled, false);
+});
+
+Deno.test("executeCommand - denyArgsのパターンに一致する引数は拒否する", async () => {
+  const mockExecuteCommandFn = (_command: string, _args: string[], _isWindows: boolean): Promise<CommandExecutionResult> => {
+    return Promise.resolve({ output: "", error: "" });
+  };
+
+  const mockReadConfigFn = createMockFunction<void, Config>({
+    allowedDirectories: [],
+    commandRules: {
+      rm: { denyArgs: ["^--recursive$", "^-[^-]*[rR]"] }
+    }
+  });
+
+  const testCases = [
+    { args: ["-rf", "/"], expectedRule: "commandRules.rm.denyArgs[1]" },
+    { args: ["--recursive", "dir"], expectedRule: "commandRules.rm.denyArgs[0]" },
+  ];
+
+  for (const testCase of testCases) {
+    try {
+      await executeCommand({
+        commandName: "rm",
+        args: testCase.args,
+        allowedCommands: new Set(["rm"]),
+        readConfigFn: mockReadConfigFn,
+        executeCommandFn: mockExecuteCommandFn
+      });
+      assertEquals(true, false, `拒否されるべき引数が実行されました: ${testCase.args.join(" ")}`);
+    } catch (error) {
+      assertEquals(error instanceof McpError, true);
+      assertEquals((error as McpError).message.includes(testCase.expectedRule), true);
+    }
+  }
+
+  const result = await executeCommand({
+    commandName: "rm",
+    args: ["-f", "file.txt"],
+    allowedCommands: new Set(["rm"]),
+    readConfigFn: mockReadConfigFn,
+    executeCommandFn: mockExecuteCommandFn
+  });
+  assertEquals(result.error, "");
+});
+
+// 実行制限のテスト
+Deno.test("resolveProcessOptions - 呼び出し時の指定、コマンドごとの設定、全体の設定の順に優先し、設定の値を上限とする", () => {
+  const config: Config = {
+    allowedDirectories: [],
+    commandRules: {
+      npm: { timeoutMs: 600000 }
+    },
+    execution: { timeoutMs: 30000, maxOutputBytes: 2048 }
+  };
+
+  assertEquals(resolveProcessOptions("npm", {}, config), { timeoutMs: 600000, maxOutputBytes: 2048 });
+  assertEquals(resolveProcessOptions("ls", {}, config), { timeoutMs: 30000, maxOutputBytes: 2048 });
+  assertEquals(resolveProcessOptions("npm", { timeoutMs: 1000, maxOutputBytes: 10 }, config), { timeoutMs: 1000, maxOutputBytes: 10 });
+  // 設定の値より大きい指定は設定の値に切り詰める
+  assertEquals(
+    resolveProcessOptions("ls", { timeoutMs: 3600000, maxOutputBytes: 1024 * 1024 * 1024 }, config),
+    { timeoutMs: 30000, maxOutputBytes: 2048 }
+  );
+  assertEquals(resolveProcessOptions("npm", { timeoutMs: 3600000 }, config), { timeoutMs: 600000, maxOutputBytes: 2048 });
+  assertEquals(
+    resolveProcessOptions("ls", { timeoutMs: 3600000 }, { allowedDirectories: [] }).timeoutMs,
+    DEFAULT_TIMEOUT_MS
+  );
+});
+
+Deno.test("readLimited - 上限を超えた出力を切り詰めて目印を付ける", async () => {
+  const encoder = new TextEncoder();
+  const stream = ReadableStream.from([encoder.encode("hello "), encoder.encode("world")]);
+
+  const output = await readLimited(stream, 8);
+  assertEquals(output.truncated, true);
+  assertEquals(output.totalBytes, 11);
+  assertEquals(decodeLimitedOutput(output), "hello wo\n[... 出力が上限を超えたため 3 バイトを省略しました]");
+});
+
+Deno.test({
+  name: "defaultExecuteCommand - タイムアウトした場合はプロセスツリーを終了させる",
+  ignore: Deno.build.os === "windows",
+  fn: async () => {
+    const startedAt = Date.now();
+    const result = await defaultExecuteCommand("sh", ["-c", "sleep 10; echo done"], false, {
+      timeoutMs: 200,
+      maxOutputBytes: 1024
+    });
+
+    assertEquals(result.timedOut, true);
+    assertEquals(result.signal, "SIGKILL");
+    assertEquals(result.output, "");
+    assertEquals(Date.now() - startedAt < 5000, true);
+  }
+});
+
+// 実行結果のメタデータのテスト
+Deno.test("executeCommand - 実行時間と実際のコマンドラインを結果に含める", async () => {
+  const mockExecuteCommandFn = (_command: string, _args: string[], _isWindows: boolean): Promise<CommandExecutionResult> => {
+    return Promise.resolve({ output: "", error: "not found", exitCode: 1, signal: null });
+  };
+
+  const mockReadConfigFn = createMockFunction<void, Config>({
+    allowedDirectories: []
+  });
+
+  const result = await executeCommand({
+    commandName: "grep foo",
+    args: ["my file.txt"],
+    allowedCommands: new Set(["grep"]),
+    readConfigFn: mockReadConfigFn,
+    executeCommandFn: mockExecuteCommandFn
+  });
+
+  assertEquals(result.exitCode, 1);
+  assertEquals(result.commandLine, "grep foo 'my file.txt'");
+  assertEquals(typeof result.durationMs, "number");
+});
+
+Deno.test("formatCommandLine - 特殊文字を含む引数を引用符で囲む", () => {
+  assertEquals(formatCommandLine("echo", ["a", "b c", "it's", ""]), "echo a 'b c' 'it'\\''s' ''");
+});
+
+Deno.test({
+  name: "defaultExecuteCommand - 終了コードを返す",
+  ignore: Deno.build.os === "windows",
+  fn: async () => {
+    const result = await defaultExecuteCommand("sh", ["-c", "echo out; echo err >&2; exit 3"], false, {
+      timeoutMs: 5000,
+      maxOutputBytes: 1024
+    });
+
+    assertEquals(result.exitCode, 3);
+    assertEquals(result.signal, null);
+    assertEquals(result.output, "out\n");
+    assertEquals(result.error, "err\n");
+    assertEquals(result.timedOut, false);
+  }
+});
+
+// 作業ディレクトリと環境変数のテスト
+Deno.test("buildCommandEnv - 許可リストに一致し拒否リストに一致しない環境変数だけを引き継ぐ", () => {
+  const baseEnv = {
+    PATH: "/usr/bin",
+    LC_ALL: "ja_JP.UTF-8",
+    GITHUB_TOKEN: "secret",
+    AWS_SECRET_ACCESS_KEY: "secret",
+    EDITOR: "vim"
+  };
+
+  assertEquals(buildCommandEnv({}, {}, baseEnv), { PATH: "/usr/bin", LC_ALL: "ja_JP.UTF-8" });
+  assertEquals(buildCommandEnv({ allow: ["*"] }, { FOO: "bar" }, baseEnv), {
+    PATH: "/usr/bin",
+    LC_ALL: "ja_JP.UTF-8",
+    EDITOR: "vim",
+    FOO: "bar"
+  });
+  assertEquals(buildCommandEnv({ allow: ["*"], deny: [] }, {}, baseEnv), baseEnv);
+});
+
+Deno.test("buildCommandEnv - 許可リストを迂回できる環境変数の指定は拒否する", () => {
+  for (const name of ["PATH", "LD_PRELOAD", "MY_TOKEN"]) {
+    try {
+      buildCommandEnv({}, { [name]: "value" }, {});
+      assertEquals(true, false, `指定できないはずの環境変数が受け付けられました: ${name}`);
+    } catch (error) {
+      assertEquals((error as Error).message.includes(name), true);
+    }
+  }
+});
+
+Deno.test("buildCommandEnv - 設定ファイルの許可リストに一致しない環境変数は指定できない", () => {
+  // 許可リストを設定していない場合は何も指定できない
+  for (const name of ["BASH_ENV", "GIT_CONFIG_COUNT", "NODE_ENV"]) {
+    try {
+      buildCommandEnv({}, { [name]: "value" }, {});
+      assertEquals(true, false, `指定できないはずの環境変数が受け付けられました: ${name}`);
+    } catch (error) {
+      assertEquals((error as Error).message.includes(name), true);
+    }
+  }
+
+  const policy = { allow: ["PATH", "NODE_ENV"] };
+  assertEquals(buildCommandEnv(policy, { NODE_ENV: "test" }, {}), { NODE_ENV: "test" });
+  const rejected: Record<string, string>[] = [{ GIT_CONFIG_COUNT: "1", GIT_CONFIG_KEY_0: "core.pager" }, { BASH_ENV: "/tmp/x" }];
+  for (const overrides of rejected) {
+    try {
+      buildCommandEnv(policy, overrides, {});
+      assertEquals(true, false, `指定できないはずの環境変数が受け付けられました: ${Object.keys(overrides)}`);
+    } catch (error) {
+      assertEquals((error as Error).message.includes("は指定できません"), true);
+    }
+  }
+});
+
+Deno.test("executeCommand - 検証済みの作業ディレクトリと環境変数をプロセスに渡す", async () => {
+  let actualOptions: ProcessOptions | undefined;
+  const mockExecuteCommandFn = (
+    _command: string,
+    _args: string[],
+    _isWindows: boolean,
+    processOptions: ProcessOptions
+  ): Promise<CommandExecutionResult> => {
+    actualOptions = processOptions;
+    return Promise.resolve({ output: "", error: "" });
+  };
+
+  const mockReadConfigFn = createMockFunction<void, Config>({
+    allowedDirectories: [],
+    execution: { env: { allow: ["PATH", "FOO"] } }
+  });
+  const tempDir = await Deno.makeTempDir();
+  const validatedPaths: string[] = [];
+
+  try {
+    await executeCommand({
+      commandName: "ls",
+      cwd: "project",
+      env: { FOO: "bar" },
+      allowedCommands: new Set(["ls"]),
+      readConfigFn: mockReadConfigFn,
+      validatePathFn: (requestedPath: string) => {
+        validatedPaths.push(requestedPath);
+        return Promise.resolve(tempDir);
+      },
+      executeCommandFn: mockExecuteCommandFn
+    });
+  } finally {
+    await Deno.remove(tempDir);
+  }
+
+  assertEquals(validatedPaths, ["project"]);
+  assertEquals(actualOptions?.cwd, tempDir);
+  assertEquals(actualOptions?.env?.FOO, "bar");
+});
+
+Deno.test("executeCommand - 許可されていない作業ディレクトリはエラーを投げる", async () => {
+  let executeCalled = false;
+  const mockExecuteCommandFn = (_command: string, _args: string[], _isWindows: boolean): Promise<CommandExecutionResult> => {
+    executeCalled = true;
+    return Promise.resolve({ output: "", error: "" });
+  };
+
+  const mockReadConfigFn = createMockFunction<void, Config>({
+    allowedDirectories: []
+  });
+
+  try {
+    await executeCommand({
+      commandName: "ls",
+      cwd: "/etc",
+      allowedCommands: new Set(["ls"]),
+      readConfigFn: mockReadConfigFn,
+      executeCommandFn: mockExecuteCommandFn
+    });
+    assertEquals(true, false, "許可されていない作業ディレクトリで実行されました");
+  } catch (error) {
+    assertEquals(error instanceof McpError, true);
+    assertEquals((error as McpError).message.includes("作業ディレクトリが不正です"), true);
+    assertEquals(executeCalled, false);
+  }
+});
+
+// 出力の逐次通知とキャンセルのテスト
+Deno.test({
+  name: "defaultExecuteCommand - 出力を受け取るたびにコールバックへ通知する",
+  ignore: Deno.build.os === "windows",
+  fn: async () => {
+    const received: string[] = [];
+    const result = await defaultExecuteCommand("sh", ["-c", "echo one; echo two >&2"], false, {
+      timeoutMs: 5000,
+      maxOutputBytes: 1024,
+      onOutput: (stream, text) => received.push(`${stream}:${text}`)
+    });
+
+    assertEquals(received.sort(), ["stderr:two\n", "stdout:one\n"]);
+    assertEquals(result.output, "one\n");
+  }
+});
+
+Deno.test({
+  name: "defaultExecuteCommand - 中断された場合はプロセスを終了させる",
+  ignore: Deno.build.os === "windows",
+  fn: async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+
+    const startedAt = Date.now();
+    const result = await defaultExecuteCommand("sleep", ["10"], false, {
+      timeoutMs: 5000,
+      maxOutputBytes: 1024,
+      signal: controller.signal
+    });
+
+    assertEquals(result.cancelled, true);
+    assertEquals(result.timedOut, false);
+    assertEquals(Date.now() - startedAt < 5000, true);
+  }
+});
@@ -1,6 +1,20 @@
 import { ErrorCode, McpError } from "npm:@modelcontextprotocol/sdk/types.js";
 import { readConfig } from "./config.ts";
 import type { Config } from "./config.ts";
+import { checkCommandRules } from "./command-policy.ts";
+import { resolveAllowedCommands } from "./command-profiles.ts";
+import { killProcessTree } from "./process-tree.ts";
+import { buildCommandEnv } from "./command-env.ts";
+import { validatePath } from "./path-validator.ts";
+import type { PathAccess } from "./path-validator.ts";
+import { quoteShellArg, ShellSyntaxError, tokenizeCommand } from "./shell-tokenizer.ts";
+
+// 実行制限のデフォルト値
+export const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+export const DEFAULT_MAX_OUTPUT_BYTES = 1024 * 1024;
+
+// タイムアウトで終了させた後も出力ストリームが閉じない場合に読み取りを打ち切るまでの猶予
+export const STREAM_CLOSE_GRACE_MS = 1000;
 
 /**
  * コマンド実行の結果を表すインターフェース
@@ -8,8 +22,53 @@ import type { Config } from "./config.ts";
 export interface CommandExecutionResult {
   output: string;
   error: string;
+  // タイムアウトによりプロセスを終了させた場合はtrue
+  timedOut?: boolean;
+  // 標準出力または標準エラー出力が上限を超えて切り詰められた場合はtrue
+  truncated?: boolean;
+  exitCode?: number;
+  // シグナルで終了した場合のシグナル名
+  signal?: string | null;
+  durationMs?: number;
+  // 実際に実行したコマンドライン
+  commandLine?: string;
+  // パイプラインを実行した場合の各段の結果
+  stages?: StageResult[];
+  // 最終段の標準出力を書き込んだファイル
+  outputFile?: string;
+  // リクエストのキャンセルによりプロセスを終了させた場合はtrue
+  cancelled?: boolean;
+}
+
+/**
+ * パイプラインの各段の実行結果を表すインターフェース
+ */
+export interface StageResult {
+  commandLine: string;
+  exitCode: number;
+  signal: string | null;
+}
+
+/**
+ * プロセス起動時のオプションを表すインターフェース
+ */
+export interface ProcessOptions {
+  timeoutMs: number;
+  maxOutputBytes: number;
+  cwd?: string;
+  // 指定した場合はサーバーの環境変数を引き継がずにこの環境変数だけを渡す
+  env?: Record<string, string>;
+  // 出力を受け取るたびに呼び出されるコールバック (上限を超えた分は通知しない)
+  onOutput?: OutputListener;
+  // 中断された場合はプロセスツリーごと終了させる
+  signal?: AbortSignal;
 }
 
+/**
+ * 出力の断片を受け取るコールバック
+ */
+export type OutputListener = (stream: "stdout" | "stderr", text: string) => void;
+
 /**
  * コマンド実行のオプションを表すインターフェース
  */
@@ -17,82 +76,334 @@ export interface CommandExecutionOptions {
   commandName: string;
   args?: string[];
   allowedCommands?: Set<string>;
+  timeoutMs?: number;
+  maxOutputBytes?: number;
+  cwd?: string;
+  env?: Record<string, string>;
+  onOutput?: OutputListener;
+  signal?: AbortSignal;
   readConfigFn?: () => Promise<Config>;
-  executeCommandFn?: (command: string, args: string[], isWindows: boolean) => Promise<CommandExecutionResult>;
+  validatePathFn?: (requestedPath: string, access?: PathAccess) => Promise<string>;
+  executeCommandFn?: (
+    command: string,
+    args: string[],
+    isWindows: boolean,
+    processOptions: ProcessOptions
+  ) => Promise<CommandExecutionResult>;
 }
 
 /**
  * コマンドが許可されているかどうかをチェックする
+ *
+ * allowedCommands は設定ファイルでプロファイルが指定されていない場合のデフォルトの許可リスト。
  */
 export async function isCommandAllowed(
   command: string, 
   allowedCommands: Set<string>, 
   readConfigFn: () => Promise<Config>
 ): Promise<boolean> {
-  // デフォルトの許可リストをチェック
-  if (allowedCommands.has(command)) {
-    return true;
+  let config: Config;
+  try {
+    config = await readConfigFn();
+  } catch (error) {
+    // 設定ファイルが読めない場合は拒否リストやプロファイルを反映できないため、すべて拒否する
+    console.error("追加コマンドの確認に失敗:", error);
+    return false;
   }
 
-  // 設定ファイルからの追加コマンドをチェック
   try {
-    const config = await readConfigFn();
-    return Object.values(config.allowedCommands || {})
-      .some((commands: string[]) => commands.includes(command));
+    return resolveAllowedCommands(config, allowedCommands).has(command);
   } catch (error) {
-    console.error("追加コマンドの確認に失敗:", error);
+    console.error("許可コマンドの解決に失敗:", error);
     return false;
   }
 }
 
+/**
+ * 上限バイト数までストリームを読み取った結果
+ */
+export interface LimitedOutput {
+  bytes: Uint8Array;
+  totalBytes: number;
+  truncated: boolean;
+}
+
+/**
+ * ストリームを上限バイト数まで読み取る
+ *
+ * 上限を超えた分は読み捨て、子プロセスがパイプの詰まりで停止しないようにする。
+ */
+export async function readLimited(
+  stream: ReadableStream<Uint8Array>,
+  maxBytes: number,
+  signal?: AbortSignal,
+  onChunk?: (bytes: Uint8Array) => void
+): Promise<LimitedOutput> {
+  const reader = stream.getReader();
+  const onAbort = () => reader.cancel().catch(() => {});
+  signal?.addEventListener("abort", onAbort);
+
+  const chunks: Uint8Array[] = [];
+  let keptBytes = 0;
+  let totalBytes = 0;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      totalBytes += value.length;
+      if (keptBytes < maxBytes) {
+        const kept = value.subarray(0, maxBytes - keptBytes);
+        chunks.push(kept);
+        keptBytes += kept.length;
+        onChunk?.(kept);
+      }
+    }
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+
+  const bytes = new Uint8Array(keptBytes);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return { bytes, totalBytes, truncated: totalBytes > keptBytes };
+}
+
+/**
+ * 出力の断片を文字列に変換してコールバックに渡す関数を作る
+ */
+export function createOutputNotifier(
+  stream: "stdout" | "stderr",
+  onOutput?: OutputListener
+): ((bytes: Uint8Array) => void) | undefined {
+  if (!onOutput) {
+    return undefined;
+  }
+  // 断片の境界で分割されたマルチバイト文字を正しく扱うためストリームモードで変換する
+  const decoder = new TextDecoder();
+  return (bytes) => {
+    const text = decoder.decode(bytes, { stream: true });
+    if (text.length > 0) {
+      onOutput(stream, text);
+    }
+  };
+}
+
+/**
+ * 読み取った出力を文字列に変換し、切り詰めた場合は目印を付ける
+ */
+export function decodeLimitedOutput(output: LimitedOutput): string {
+  const text = new TextDecoder().decode(output.bytes);
+  if (!output.truncated) {
+    return text;
+  }
+  const omitted = output.totalBytes - output.bytes.length;
+  return `${text}\n[... 出力が上限を超えたため ${omitted} バイトを省略しました]`;
+}
+
+/**
+ * タイムアウトとキャンセルを監視するタイマーを表すインターフェース
+ */
+export interface TimeoutWatchdog {
+  // プロセスを終了させた後に出力の読み取りを打ち切るためのシグナル
+  readSignal: AbortSignal;
+  timedOut: () => boolean;
+  cancelled: () => boolean;
+  clear: () => void;
+}
+
+/**
+ * タイムアウトまたはキャンセル時にプロセスツリーごと終了させ、残った出力の読み取りも打ち切るタイマーを開始する
+ */
+export function watchTimeout(
+  pids: number[],
+  isWindows: boolean,
+  timeoutMs: number,
+  cancelSignal?: AbortSignal
+): TimeoutWatchdog {
+  let timedOut = false;
+  let cancelled = false;
+  let killed = false;
+  const abortReads = new AbortController();
+  let graceTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const killAll = () => {
+    if (killed) {
+      return;
+    }
+    killed = true;
+    Promise.all(pids.map((pid) => killProcessTree(pid, isWindows)))
+      .catch((error) => console.error("プロセスの強制終了に失敗:", error))
+      .finally(() => {
+        graceTimer = setTimeout(() => abortReads.abort(), STREAM_CLOSE_GRACE_MS);
+      });
+  };
+  const timeoutTimer = setTimeout(() => {
+    timedOut = true;
+    killAll();
+  }, timeoutMs);
+  const onCancel = () => {
+    cancelled = true;
+    killAll();
+  };
+  if (cancelSignal?.aborted) {
+    onCancel();
+  } else {
+    cancelSignal?.addEventListener("abort", onCancel);
+  }
+
+  return {
+    readSignal: abortReads.signal,
+    timedOut: () => timedOut,
+    cancelled: () => cancelled,
+    clear: () => {
+      clearTimeout(timeoutTimer);
+      clearTimeout(graceTimer);
+      cancelSignal?.removeEventListener("abort", onCancel);
+    },
+  };
+}
+
 /**
  * デフォルトのコマンド実行関数
  */
 export async function defaultExecuteCommand(
   command: string, 
   args: string[], 
-  isWindows: boolean
+  isWindows: boolean,
+  processOptions: ProcessOptions = { timeoutMs: DEFAULT_TIMEOUT_MS, maxOutputBytes: DEFAULT_MAX_OUTPUT_BYTES }
 ): Promise<CommandExecutionResult> {
-  const process = new Deno.Command(
+  const child = new Deno.Command(
     isWindows ? "cmd.exe" : command,
     {
       args: isWindows ? ["/c", command, ...args] : args,
+      cwd: processOptions.cwd,
+      env: processOptions.env,
+      clearEnv: processOptions.env !== undefined,
+      stdin: "null",
       stdout: "piped",
       stderr: "piped",
     }
-  );
-  
-  const { stdout, stderr } = await process.output();
-  const output = new TextDecoder().decode(stdout);
-  const error = new TextDecoder().decode(stderr);
-  
-  return { output, error };
+  ).spawn();
+
+  const watchdog = watchTimeout([child.pid], isWindows, processOptions.timeoutMs, processOptions.signal);
+  try {
+    const [stdout, stderr, status] = await Promise.all([
+      readLimited(
+        child.stdout,
+        processOptions.maxOutputBytes,
+        watchdog.readSignal,
+        createOutputNotifier("stdout", processOptions.onOutput),
+      ),
+      readLimited(
+        child.stderr,
+        processOptions.maxOutputBytes,
+        watchdog.readSignal,
+        createOutputNotifier("stderr", processOptions.onOutput),
+      ),
+      child.status,
+    ]);
+
+    return {
+      output: decodeLimitedOutput(stdout),
+      error: decodeLimitedOutput(stderr),
+      timedOut: watchdog.timedOut(),
+      cancelled: watchdog.cancelled(),
+      truncated: stdout.truncated || stderr.truncated,
+      exitCode: status.code,
+      signal: status.signal,
+    };
+  } finally {
+    watchdog.clear();
+  }
 }
 
 /**
- * コマンドを実行する関数
+ * コマンドと引数を表示用のコマンドラインに整形する
  */
-export async function executeCommand(options: CommandExecutionOptions): Promise<CommandExecutionResult> {
-  const { 
-    commandName, 
-    args = [], 
-    allowedCommands = new Set<string>(),
-    readConfigFn = readConfig,
-    executeCommandFn = defaultExecuteCommand
-  } = options;
+export function formatCommandLine(command: string, args: string[]): string {
+  return [command, ...args].map(quoteShellArg).join(" ");
+}
+
+/**
+ * 呼び出し時の指定、コマンドごとの設定、全体の設定の順に実行制限を決定する
+ *
+ * 呼び出し時の指定は設定ファイルの制限を緩められないよう、設定の値を上限とする。
+ */
+export function resolveProcessOptions(
+  command: string,
+  options: Pick<CommandExecutionOptions, "timeoutMs" | "maxOutputBytes">,
+  config?: Config
+): ProcessOptions {
+  const rule = config?.commandRules?.[command];
+  const timeoutMs = rule?.timeoutMs ?? config?.execution?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxOutputBytes = rule?.maxOutputBytes ?? config?.execution?.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+  return {
+    timeoutMs: Math.min(options.timeoutMs ?? timeoutMs, timeoutMs),
+    maxOutputBytes: Math.min(options.maxOutputBytes ?? maxOutputBytes, maxOutputBytes),
+  };
+}
+
+/**
+ * 許可リストとルールを適用した実行対象のコマンドを表すインターフェース
+ */
+export interface ResolvedCommand {
+  command: string;
+  args: string[];
+}
+
+/**
+ * コマンドの検証に使う設定ファイルを読み込む
+ *
+ * 読み込みに失敗した場合は拒否リストやコマンドルールを適用できないため、コマンドを実行させずにエラーにする。
+ */
+export async function loadExecutionConfig(readConfigFn: () => Promise<Config>): Promise<Config> {
+  try {
+    return await readConfigFn();
+  } catch (error) {
+    console.error("コマンドルールの読み込みに失敗:", error);
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `設定ファイルを読み込めないため、コマンドを実行できません: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
 
-  // コマンド文字列をパースする処理
-  let actualCommand = commandName;
-  let actualArgs = [...args];
+/**
+ * コマンド文字列を分割し、許可リストとコマンドごとのルールを適用する
+ */
+export async function authorizeCommand(
+  commandName: string,
+  args: string[],
+  allowedCommands: Set<string>,
+  readConfigFn: () => Promise<Config>,
+  config: Config | undefined
+): Promise<ResolvedCommand> {
+  // コマンド文字列をシェルと同じ規則で分割する (パイプやリダイレクトは解釈しない)
+  let parts: string[];
+  try {
+    parts = tokenizeCommand(commandName.trim());
+  } catch (error) {
+    if (error instanceof ShellSyntaxError) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `コマンド '${commandName}' を解析できません: ${error.message}`
+      );
+    }
+    throw error;
+  }
+  if (parts.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, "実行するコマンドが指定されていません");
+  }
 
-  // スペースが含まれている場合はコマンドと引数に分割
-  if (commandName.includes(' ')) {
-    // 先頭と末尾の空白を削除してから分割
-    const trimmedCommand = commandName.trim();
-    const parts = trimmedCommand.split(/\s+/).filter(part => part.length > 0);
-    actualCommand = parts[0];
-    actualArgs = [...parts.slice(1), ...args];
-    console.error(`コマンドをパースしました: ${commandName} => ${actualCommand} ${actualArgs.join(' ')}`);
+  const actualCommand = parts[0];
+  const actualArgs = [...parts.slice(1), ...args];
+  if (parts.length > 1) {
+    console.error(`コマンドをパースしました: ${commandName} => ${formatCommandLine(actualCommand, actualArgs)}`);
   }
 
   // コマンドが許可されているかチェック
@@ -104,10 +415,85 @@ export async function executeCommand(options: CommandExecutionOptions): Promise<
     );
   }
 
+  // コマンドごとの引数ルールをチェック
+  const violation = config && checkCommandRules(actualCommand, actualArgs, config);
+  if (violation) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `コマンド '${formatCommandLine(actualCommand, actualArgs)}' はルール ${violation.rule} により拒否されました: ${violation.message}`
+    );
+  }
+
+  return { command: actualCommand, args: actualArgs };
+}
+
+/**
+ * 作業ディレクトリを検証し、子プロセスに渡す環境変数を組み立てる
+ */
+export async function resolveProcessContext(
+  options: Pick<CommandExecutionOptions, "cwd" | "env">,
+  config: Config | undefined,
+  validatePathFn: (requestedPath: string) => Promise<string>
+): Promise<Pick<ProcessOptions, "cwd" | "env">> {
+  // 作業ディレクトリは許可されたディレクトリ内に限る
+  let cwd: string | undefined;
+  if (options.cwd !== undefined) {
+    try {
+      cwd = await validatePathFn(options.cwd);
+      if (!(await Deno.stat(cwd)).isDirectory) {
+        throw new Error(`ディレクトリではありません: ${options.cwd}`);
+      }
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `作業ディレクトリが不正です: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  try {
+    return { cwd, env: buildCommandEnv(config?.execution?.env, options.env) };
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+/**
+ * コマンドを実行する関数
+ */
+export async function executeCommand(options: CommandExecutionOptions): Promise<CommandExecutionResult> {
+  const { 
+    commandName, 
+    args = [], 
+    allowedCommands = new Set<string>(),
+    readConfigFn = readConfig,
+    validatePathFn = (requestedPath: string, access?: PathAccess) => validatePath(requestedPath, readConfigFn, access),
+    executeCommandFn = defaultExecuteCommand
+  } = options;
+
+  const config = await loadExecutionConfig(readConfigFn);
+  const { command, args: actualArgs } = await authorizeCommand(commandName, args, allowedCommands, readConfigFn, config);
+  const context = await resolveProcessContext(options, config, validatePathFn);
+
   try {
     // OSに応じてコマンドを実行
     const isWindows = Deno.build.os === "windows";
-    return await executeCommandFn(actualCommand, actualArgs, isWindows);
+    const processOptions = {
+      ...resolveProcessOptions(command, options, config),
+      ...context,
+      onOutput: options.onOutput,
+      signal: options.signal,
+    };
+    const startedAt = performance.now();
+    const result = await executeCommandFn(command, actualArgs, isWindows, processOptions);
+    return {
+      ...result,
+      durationMs: Math.round(performance.now() - startedAt),
+      commandLine: formatCommandLine(command, actualArgs),
+    };
   } catch (error) {
     throw new McpError(
       ErrorCode.InternalError,
@@ -0,0 +1,143 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { McpError } from "npm:@modelcontextprotocol/sdk/types.js";
+import { executePipeline } from "./command-pipeline.ts";
+import { ChangeJournal } from "./change-journal.ts";
+import type { Config } from "./config.ts";
+
+// テスト用の設定ファイル読み込み関数
+const mockReadConfigFn = (): Promise<Config> => Promise.resolve({ allowedDirectories: [] });
+
+Deno.test("executePipeline - いずれかの段が許可されていない場合は何も実行しない", async () => {
+  let executeCalled = false;
+
+  try {
+    await executePipeline({
+      stages: [{ commandName: "git log" }, { commandName: "sh", args: ["-c", "rm -rf /"] }],
+      allowedCommands: new Set(["git", "head"]),
+      readConfigFn: mockReadConfigFn,
+      executePipelineFn: () => {
+        executeCalled = true;
+        return Promise.resolve({ output: "", error: "" });
+      }
+    });
+    assertEquals(true, false, "許可されていない段を含むパイプラインが実行されました");
+  } catch (error) {
+    assertEquals(error instanceof McpError, true);
+    assertEquals((error as McpError).message.includes("許可されていません"), true);
+    assertEquals(executeCalled, false);
+  }
+});
+
+Deno.test({
+  name: "executePipeline - 標準入力を渡して各段の出力を次の段につなぐ",
+  ignore: Deno.build.os === "windows",
+  fn: async () => {
+    const result = await executePipeline({
+      stages: [{ commandName: "sort" }, { commandName: "head", args: ["-n", "2"] }],
+      stdin: "c\na\nb\n",
+      allowedCommands: new Set(["sort", "head"]),
+      readConfigFn: mockReadConfigFn
+    });
+
+    assertEquals(result.output, "a\nb\n");
+    assertEquals(result.exitCode, 0);
+    assertEquals(result.commandLine, "sort | head -n 2");
+    assertEquals(result.stages?.map((stage) => stage.exitCode), [0, 0]);
+  }
+});
+
+Deno.test({
+  name: "executePipeline - 最終段の出力を検証済みのファイルに書き込む",
+  ignore: Deno.build.os === "windows",
+  fn: async () => {
+    const tempDir = await Deno.makeTempDir();
+    const outputFile = `${tempDir}/out.txt`;
+    const validatedPaths: string[] = [];
+
+    try {
+      const result = await executePipeline({
+        stages: [{ commandName: "echo hello" }, { commandName: "tr a-z A-Z" }],
+        outputFile: "out.txt",
+        allowedCommands: new Set(["echo", "tr"]),
+        readConfigFn: mockReadConfigFn,
+        validatePathFn: (requestedPath: string) => {
+          validatedPaths.push(requestedPath);
+          return Promise.resolve(outputFile);
+        }
+      });
+
+      assertEquals(validatedPaths, ["out.txt"]);
+      assertEquals(result.output, "");
+      assertEquals(result.outputFile, outputFile);
+      assertEquals(await Deno.readTextFile(outputFile), "HELLO\n");
+    } finally {
+      await Deno.remove(tempDir, { recursive: true });
+    }
+  }
+});
+
+Deno.test({
+  name: "executePipeline - 出力先のファイルへの書き込みを取り消せる",
+  ignore: Deno.build.os === "windows",
+  fn: async () => {
+    const tempDir = await Deno.makeTempDir();
+    const outputFile = `${tempDir}/out.txt`;
+    const changes = new ChangeJournal(() =>
+      Promise.resolve({ allowedDirectories: [], backup: { directory: `${tempDir}/backup` } })
+    );
+
+    try {
+      await Deno.writeTextFile(outputFile, "before\n");
+      await executePipeline({
+        stages: [{ commandName: "echo after" }],
+        outputFile,
+        appendOutput: true,
+        commitFileFn: (tempPath, filePath, options) => changes.commitFile("execute_command", tempPath, filePath, options),
+        allowedCommands: new Set(["echo"]),
+        readConfigFn: mockReadConfigFn,
+        validatePathFn: (requestedPath: string) => Promise.resolve(requestedPath)
+      });
+      assertEquals(await Deno.readTextFile(outputFile), "before\nafter\n");
+
+      await changes.undoLast();
+      assertEquals(await Deno.readTextFile(outputFile), "before\n");
+    } finally {
+      await changes.dispose();
+      await Deno.remove(tempDir, { recursive: true });
+    }
+  }
+});
+
+Deno.test({
+  name: "executePipeline - 中断した場合は出力先のファイルを変更しない",
+  ignore: Deno.build.os === "windows",
+  fn: async () => {
+    const tempDir = await Deno.makeTempDir();
+    const outputFile = `${tempDir}/out.txt`;
+    const controller = new AbortController();
+
+    try {
+      await Deno.writeTextFile(outputFile, "before\n");
+      const execution = executePipeline({
+        stages: [{ commandName: "sh", args: ["-c", "echo partial; sleep 5"] }],
+        outputFile,
+        signal: controller.signal,
+        allowedCommands: new Set(["sh"]),
+        readConfigFn: mockReadConfigFn,
+        validatePathFn: (requestedPath: string) => Promise.resolve(requestedPath)
+      });
+      setTimeout(() => controller.abort(), 200);
+      const result = await execution;
+
+      assertEquals(result.outputFile, undefined);
+      assertEquals(await Deno.readTextFile(outputFile), "before\n");
+      const entries = [];
+      for await (const entry of Deno.readDir(tempDir)) {
+        entries.push(entry.name);
+      }
+      assertEquals(entries, ["out.txt"]);
+    } finally {
+      await Deno.remove(tempDir, { recursive: true });
+    }
+  }
+});
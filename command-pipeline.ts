@@ -0,0 +1,290 @@
+import { ErrorCode, McpError } from "npm:@modelcontextprotocol/sdk/types.js";
+import { readConfig } from "./config.ts";
+import {
+  authorizeCommand,
+  createOutputNotifier,
+  decodeLimitedOutput,
+  formatCommandLine,
+  loadExecutionConfig,
+  readLimited,
+  resolveProcessContext,
+  resolveProcessOptions,
+  watchTimeout,
+} from "./command-executor.ts";
+import type {
+  CommandExecutionOptions,
+  CommandExecutionResult,
+  LimitedOutput,
+  ProcessOptions,
+  ResolvedCommand,
+} from "./command-executor.ts";
+import { killProcessTree } from "./process-tree.ts";
+import { commitTempFile, tempPathFor } from "./change-journal.ts";
+import { validatePath } from "./path-validator.ts";
+import type { PathAccess } from "./path-validator.ts";
+import { quoteShellArg } from "./shell-tokenizer.ts";
+
+/**
+ * パイプラインの各段を表すインターフェース
+ */
+export interface PipelineStage {
+  commandName: string;
+  args?: string[];
+}
+
+/**
+ * パイプラインの入出力を表すインターフェース
+ */
+export interface PipelineIO {
+  // 最初の段の標準入力に渡す文字列
+  stdin?: string;
+  // 最終段の標準出力を書き込むファイル (検証済みのパス)
+  outputFile?: string;
+  appendOutput?: boolean;
+  // 出力を書き込んだ一時ファイルをoutputFileに反映する関数 (変更を取り消せるようにする場合はChangeJournalを使う)
+  commitFileFn?: (tempPath: string, filePath: string, options: { append?: boolean }) => Promise<void>;
+}
+
+/**
+ * パイプライン実行のオプションを表すインターフェース
+ */
+export interface PipelineExecutionOptions
+  extends Omit<CommandExecutionOptions, "commandName" | "args" | "executeCommandFn">, Omit<PipelineIO, "outputFile"> {
+  stages: PipelineStage[];
+  outputFile?: string;
+  executePipelineFn?: (
+    stages: ResolvedCommand[],
+    isWindows: boolean,
+    processOptions: ProcessOptions,
+    io: PipelineIO
+  ) => Promise<CommandExecutionResult>;
+}
+
+/**
+ * 標準出力をファイルに書き込み、書き込んだバイト数を返す
+ */
+async function writeToFile(
+  stream: ReadableStream<Uint8Array>,
+  file: Deno.FsFile,
+  signal: AbortSignal
+): Promise<LimitedOutput> {
+  let totalBytes = 0;
+  const counter = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      totalBytes += chunk.length;
+      controller.enqueue(chunk);
+    },
+  });
+  try {
+    await stream.pipeThrough(counter).pipeTo(file.writable, { signal });
+  } catch (error) {
+    if (!signal.aborted) {
+      throw error;
+    }
+  }
+  return { bytes: new Uint8Array(), totalBytes, truncated: false };
+}
+
+/**
+ * デフォルトのパイプライン実行関数
+ *
+ * 各段のプロセスをサーバー自身が起動し、前段の標準出力を次段の標準入力につなぐ。
+ * 最終段の出力は出力先と同じディレクトリの一時ファイルに書き込み、タイムアウトや中断をせずに
+ * 終了した場合だけ出力先に反映する。
+ */
+export async function defaultExecutePipeline(
+  stages: ResolvedCommand[],
+  isWindows: boolean,
+  processOptions: ProcessOptions,
+  io: PipelineIO = {}
+): Promise<CommandExecutionResult> {
+  let output: { tempPath: string; file: Deno.FsFile } | undefined;
+  if (io.outputFile !== undefined) {
+    const tempPath = tempPathFor(io.outputFile);
+    output = { tempPath, file: await Deno.open(tempPath, { write: true, createNew: true }) };
+  }
+  // 出力先に反映しなかった一時ファイルを削除する
+  const discardOutput = async () => {
+    if (output !== undefined) {
+      try {
+        output.file.close();
+      } catch {
+        // 書き込みを終えた時点で閉じている
+      }
+      await Deno.remove(output.tempPath).catch(() => {});
+    }
+  };
+
+  const children: Deno.ChildProcess[] = [];
+  try {
+    for (const [index, stage] of stages.entries()) {
+      children.push(new Deno.Command(
+        isWindows ? "cmd.exe" : stage.command,
+        {
+          args: isWindows ? ["/c", stage.command, ...stage.args] : stage.args,
+          cwd: processOptions.cwd,
+          env: processOptions.env,
+          clearEnv: processOptions.env !== undefined,
+          stdin: index > 0 || io.stdin !== undefined ? "piped" : "null",
+          stdout: "piped",
+          stderr: "piped",
+        }
+      ).spawn());
+    }
+  } catch (error) {
+    // 途中の段の起動に失敗した場合は起動済みの段を終了させる
+    for (const child of children) {
+      await killProcessTree(child.pid, isWindows);
+      await Promise.all([child.stdout.cancel(), child.stderr.cancel(), child.status]);
+    }
+    await discardOutput();
+    throw error;
+  }
+
+  const watchdog = watchTimeout(
+    children.map((child) => child.pid),
+    isWindows,
+    processOptions.timeoutMs,
+    processOptions.signal,
+  );
+  try {
+    // 後段が先に終了した場合の書き込みエラーは無視する
+    const transfers = children.slice(1).map((child, index) =>
+      children[index].stdout.pipeTo(child.stdin, { signal: watchdog.readSignal }).catch(() => {})
+    );
+    if (io.stdin !== undefined) {
+      transfers.push(
+        ReadableStream.from([new TextEncoder().encode(io.stdin)])
+          .pipeTo(children[0].stdin, { signal: watchdog.readSignal })
+          .catch(() => {})
+      );
+    }
+
+    const last = children[children.length - 1];
+    const [stdout, stderrs, statuses] = await Promise.all([
+      output !== undefined
+        ? writeToFile(last.stdout, output.file, watchdog.readSignal)
+        : readLimited(
+          last.stdout,
+          processOptions.maxOutputBytes,
+          watchdog.readSignal,
+          createOutputNotifier("stdout", processOptions.onOutput),
+        ),
+      Promise.all(children.map((child) =>
+        readLimited(
+          child.stderr,
+          processOptions.maxOutputBytes,
+          watchdog.readSignal,
+          createOutputNotifier("stderr", processOptions.onOutput),
+        )
+      )),
+      Promise.all(children.map((child) => child.status)),
+    ]);
+    await Promise.all(transfers);
+
+    // タイムアウトや中断で途中までしか出力されていない場合は出力先を変更しない
+    const committed = output !== undefined && !watchdog.timedOut() && !watchdog.cancelled();
+    if (committed) {
+      await (io.commitFileFn ?? commitTempFile)(output!.tempPath, io.outputFile!, { append: io.appendOutput });
+    }
+
+    // 複数の段がある場合はどの段の標準エラー出力か分かるように見出しを付ける
+    const error = stderrs.map((stderr, index) => {
+      const text = decodeLimitedOutput(stderr);
+      return stages.length > 1 && text.length > 0
+        ? `[${formatCommandLine(stages[index].command, stages[index].args)}]\n${text}`
+        : text;
+    }).join("");
+    const lastStatus = statuses[statuses.length - 1];
+
+    return {
+      output: output !== undefined ? "" : decodeLimitedOutput(stdout),
+      error,
+      timedOut: watchdog.timedOut(),
+      cancelled: watchdog.cancelled(),
+      truncated: stdout.truncated || stderrs.some((stderr) => stderr.truncated),
+      exitCode: lastStatus.code,
+      signal: lastStatus.signal,
+      stages: stages.map((stage, index) => ({
+        commandLine: formatCommandLine(stage.command, stage.args),
+        exitCode: statuses[index].code,
+        signal: statuses[index].signal,
+      })),
+      outputFile: committed ? io.outputFile : undefined,
+    };
+  } finally {
+    watchdog.clear();
+    await discardOutput();
+  }
+}
+
+/**
+ * パイプラインを実行する関数
+ */
+export async function executePipeline(options: PipelineExecutionOptions): Promise<CommandExecutionResult> {
+  const {
+    stages,
+    allowedCommands = new Set<string>(),
+    readConfigFn = readConfig,
+    validatePathFn = (requestedPath: string, access?: PathAccess) => validatePath(requestedPath, readConfigFn, access),
+    executePipelineFn = defaultExecutePipeline
+  } = options;
+
+  if (stages.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, "パイプラインにコマンドが指定されていません");
+  }
+
+  // すべての段を許可リストとコマンドルールで検証してから起動する
+  const config = await loadExecutionConfig(readConfigFn);
+  const resolved: ResolvedCommand[] = [];
+  for (const stage of stages) {
+    resolved.push(await authorizeCommand(stage.commandName, stage.args ?? [], allowedCommands, readConfigFn, config));
+  }
+  const context = await resolveProcessContext(options, config, validatePathFn);
+
+  let outputFile: string | undefined;
+  if (options.outputFile !== undefined) {
+    try {
+      outputFile = await validatePathFn(options.outputFile, "write");
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `出力先ファイルが不正です: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  // タイムアウトは各段の中で最も長いもの、出力の上限は最終段のものを使う
+  const limits = resolved.map((stage) => resolveProcessOptions(stage.command, options, config));
+  const processOptions: ProcessOptions = {
+    timeoutMs: Math.max(...limits.map((limit) => limit.timeoutMs)),
+    maxOutputBytes: limits[limits.length - 1].maxOutputBytes,
+    ...context,
+    onOutput: options.onOutput,
+    signal: options.signal,
+  };
+
+  const commandLine = resolved.map((stage) => formatCommandLine(stage.command, stage.args)).join(" | ") +
+    (outputFile !== undefined ? ` ${options.appendOutput ? ">>" : ">"} ${quoteShellArg(outputFile)}` : "");
+
+  try {
+    const isWindows = Deno.build.os === "windows";
+    const startedAt = performance.now();
+    const result = await executePipelineFn(resolved, isWindows, processOptions, {
+      stdin: options.stdin,
+      outputFile,
+      appendOutput: options.appendOutput,
+      commitFileFn: options.commitFileFn,
+    });
+    return {
+      ...result,
+      durationMs: Math.round(performance.now() - startedAt),
+      commandLine,
+    };
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      `コマンド実行エラー: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import type { CommandRule, Config } from "./config.ts";
+
+/**
+ * コマンドルールの違反内容を表すインターフェース
+ */
+export interface CommandRuleViolation {
+  // 一致したルールの設定キー (例: commandRules.git.allowSubcommands)
+  rule: string;
+  message: string;
+}
+
+// サブコマンドの前に置けて、次の引数を値として取るグローバルオプション
+// (値を読み飛ばさないと「git -C /tmp push」の「/tmp」をサブコマンドと誤認する)
+const GLOBAL_OPTIONS_WITH_VALUE: Record<string, string[]> = {
+  git: ["-C", "-c", "--git-dir", "--work-tree", "--namespace", "--super-prefix", "--config-env", "--exec-path", "--list-cmds"],
+  docker: ["-c", "--context", "--config", "-H", "--host", "-l", "--log-level", "--tlscacert", "--tlscert", "--tlskey"],
+  npm: ["-C", "--prefix", "--userconfig", "--registry", "-w", "--workspace"],
+  cargo: ["-C", "--config", "-Z", "--color"],
+  kubectl: ["-n", "--namespace", "--context", "--cluster", "--kubeconfig", "-s", "--server", "--user", "--token"],
+};
+
+/**
+ * 引数のうちオプションでないもの (サブコマンドとその引数) を順に取り出す
+ *
+ * サブコマンドより前にある値を取るグローバルオプションは値ごと読み飛ばし、
+ * 「--opt=value」の形式はオプションとして扱う。「--」より後はすべてオプションでない引数とする。
+ */
+export function positionalArgs(command: string, args: string[]): string[] {
+  const optionsWithValue = GLOBAL_OPTIONS_WITH_VALUE[command] ?? [];
+  const positional: string[] = [];
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    if (arg === "--") {
+      positional.push(...args.slice(index + 1));
+      break;
+    }
+    if (!arg.startsWith("-")) {
+      positional.push(arg);
+    } else if (positional.length === 0 && optionsWithValue.includes(arg)) {
+      index++;
+    }
+  }
+  return positional;
+}
+
+/**
+ * 引数からサブコマンドを取り出す
+ */
+export function findSubcommand(command: string, args: string[]): string | undefined {
+  return positionalArgs(command, args)[0];
+}
+
+/**
+ * 引数パターンに一致する最初のパターンを返す
+ */
+function findMatchingPattern(arg: string, patterns: string[]): { pattern: string; index: number } | undefined {
+  for (const [index, pattern] of patterns.entries()) {
+    if (new RegExp(pattern).test(arg)) {
+      return { pattern, index };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 単一のルールをコマンドの引数に適用する
+ */
+function applyRule(command: string, args: string[], rule: CommandRule): CommandRuleViolation | null {
+  const prefix = `commandRules.${command}`;
+  const subcommand = findSubcommand(command, args);
+
+  if (subcommand !== undefined && rule.denySubcommands?.includes(subcommand)) {
+    return {
+      rule: `${prefix}.denySubcommands`,
+      message: `サブコマンド '${subcommand}' は拒否されています`,
+    };
+  }
+
+  if (subcommand !== undefined && rule.allowSubcommands && !rule.allowSubcommands.includes(subcommand)) {
+    return {
+      rule: `${prefix}.allowSubcommands`,
+      message: `サブコマンド '${subcommand}' は許可されていません (許可: ${rule.allowSubcommands.join(", ")})`,
+    };
+  }
+
+  for (const arg of args) {
+    const denied = rule.denyArgs && findMatchingPattern(arg, rule.denyArgs);
+    if (denied) {
+      return {
+        rule: `${prefix}.denyArgs[${denied.index}]`,
+        message: `引数 '${arg}' がパターン /${denied.pattern}/ に一致します`,
+      };
+    }
+    if (rule.allowArgs && !findMatchingPattern(arg, rule.allowArgs)) {
+      return {
+        rule: `${prefix}.allowArgs`,
+        message: `引数 '${arg}' は許可されたパターンのいずれにも一致しません`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 設定ファイルのコマンドルールに違反していないかチェックする
+ */
+export function checkCommandRules(
+  command: string,
+  args: string[],
+  config: Config
+): CommandRuleViolation | null {
+  const rule = config.commandRules?.[command];
+  if (!rule) {
+    return null;
+  }
+
+  try {
+    return applyRule(command, args, rule);
+  } catch (error) {
+    // 不正な正規表現などでルールを評価できない場合は拒否する
+    return {
+      rule: `commandRules.${command}`,
+      message: `ルールを評価できません: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
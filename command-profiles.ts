@@ -0,0 +1,174 @@
+import type { Config } from "./config.ts";
+
+/**
+ * 組み込みコマンドのカテゴリを表すインターフェース
+ */
+export interface CommandCategory {
+  name: string;
+  description: string;
+  commands: string[];
+}
+
+// カテゴリごとの組み込みコマンド
+export const BUILTIN_COMMAND_CATEGORIES: CommandCategory[] = [
+  {
+    name: "Windows/DOSコマンド",
+    description: "Windowsのコマンドプロンプトで使うファイル・システム・ネットワーク操作",
+    commands: [
+      'dir', 'copy', 'xcopy', 'robocopy', 'move', 'del', 'rd', 'md', 'type', 'more',
+      'find', 'findstr', 'sort', 'fc', 'comp', 'tree', 'where', 'whoami', 'tasklist',
+      'taskkill', 'systeminfo', 'hostname', 'ipconfig', 'netstat', 'net', 'ping',
+      'tracert', 'nslookup', 'pathping', 'route', 'arp', 'attrib', 'chcp', 'cipher',
+      'clip', 'compact', 'expand', 'forfiles', 'fsutil', 'ftype', 'reg', 'sc',
+      'schtasks', 'shutdown', 'timeout', 'title', 'ver', 'vol', 'wmic', 'powershell',
+      'pwsh', 'cmd',
+    ],
+  },
+  {
+    name: "シェル",
+    description: "スクリプトや任意のコマンドを実行できるシェル",
+    commands: ['bash', 'sh', 'zsh', 'fish', 'ksh', 'csh', 'tcsh', 'dash', 'ash'],
+  },
+  {
+    name: "GNU Core Utils & BusyBox基本コマンド",
+    description: "ファイル操作・テキスト処理・アーカイブなどの基本コマンド",
+    commands: [
+      'ls', 'cp', 'mv', 'rm', 'mkdir', 'rmdir', 'cat', 'head', 'tail', 'grep', 'find',
+      'sort', 'uniq', 'wc', 'tr', 'cut', 'paste', 'join', 'split', 'basename',
+      'dirname', 'pwd', 'date', 'touch', 'chmod', 'chown', 'df', 'du', 'ln', 'tar',
+      'gzip', 'gunzip', 'bzip2', 'bunzip2', 'xz', 'unxz', 'zip', 'unzip',
+    ],
+  },
+  {
+    name: "テキスト処理ツール",
+    description: "テキスト・JSON・CSVの加工とドキュメント変換",
+    commands: [
+      'awk', 'gawk', 'mawk', 'nawk',
+      'sed', 'gsed', 'ssed',
+      'jq', 'yq', 'fx',
+      'csvkit', 'xsv', 'tsv-utils',
+      'pandoc', 'asciidoctor',
+    ],
+  },
+  {
+    name: "データベースクライアント",
+    description: "各種データベースへの接続とダンプ・インポート",
+    commands: [
+      'sqlite3', 'sqlite', 'mysql', 'mysqldump', 'mysqlimport', 'psql', 'pg_dump', 'pg_restore',
+      'mongosh', 'mongoexport', 'mongoimport', 'redis-cli', 'duckdb', 'influx',
+    ],
+  },
+  {
+    name: "開発ツール - コンパイラ/インタプリタ",
+    description: "プログラミング言語のコンパイラとランタイム",
+    commands: [
+      'gcc', 'g++', 'clang', 'clang++', 'rustc', 'python', 'python3', 'node', 'deno',
+      'java', 'javac', 'kotlin', 'kotlinc', 'go', 'gofmt', 'ruby', 'perl', 'php',
+      'ghc', 'stack', 'cabal', 'scala', 'scalac', 'dotnet', 'tsc', 'esbuild', 'swc',
+    ],
+  },
+  {
+    name: "パッケージマネージャ",
+    description: "依存パッケージのインストールと管理",
+    commands: [
+      'npm', 'yarn', 'pnpm', 'pip', 'pip3', 'cargo', 'gem', 'composer', 'maven',
+      'gradle', 'sbt', 'nuget', 'vcpkg', 'conan',
+    ],
+  },
+  {
+    name: "ビルド/タスクツール",
+    description: "ビルドシステムとタスクランナー",
+    commands: [
+      'make', 'cmake', 'ninja', 'rake', 'grunt', 'gulp', 'webpack', 'rollup', 'vite',
+      'bazel', 'buck',
+    ],
+  },
+  {
+    name: "テストツール",
+    description: "テストランナー",
+    commands: ['jest', 'pytest', 'rspec', 'mocha', 'karma', 'cypress', 'playwright'],
+  },
+  {
+    name: "開発支援ツール",
+    description: "バージョン管理・HTTPクライアント・コンテナ・インフラ・リンターなど",
+    commands: [
+      'git', 'gh', 'curl', 'wget', 'httpie', 'docker', 'podman', 'terraform', 'ansible',
+      'protoc', 'grpcurl', 'shellcheck', 'shfmt', 'prettier', 'eslint', 'stylelint',
+      'graphql', 'hasura',
+    ],
+  },
+];
+
+// devプロファイルから除外する、シェルやシステム管理など影響範囲の大きいコマンド
+const DEV_EXCLUDED_COMMANDS = new Set([
+  ...BUILTIN_COMMAND_CATEGORIES.find((category) => category.name === "シェル")!.commands,
+  'powershell', 'pwsh', 'cmd', 'shutdown', 'reg', 'sc', 'schtasks', 'fsutil', 'wmic', 'taskkill',
+  'cipher', 'net', 'route', 'arp', 'ftype', 'chown', 'docker', 'podman', 'terraform', 'ansible',
+]);
+
+const ALL_BUILTIN_COMMANDS = BUILTIN_COMMAND_CATEGORIES.flatMap((category) => category.commands);
+
+// 組み込みのプロファイル
+export const BUILTIN_PROFILES: Record<string, string[]> = {
+  // すべての組み込みコマンド (プロファイル未指定時のデフォルト)
+  full: ALL_BUILTIN_COMMANDS,
+  // 開発作業に必要なコマンド
+  dev: ALL_BUILTIN_COMMANDS.filter((command) => !DEV_EXCLUDED_COMMANDS.has(command)),
+  // ファイルを変更しない閲覧用のコマンド
+  readonly: [
+    'ls', 'cat', 'head', 'tail', 'grep', 'wc', 'cut', 'tr', 'basename', 'dirname', 'pwd', 'date',
+    'df', 'du', 'dir', 'type', 'more', 'findstr', 'where', 'whoami', 'hostname', 'tree', 'fc',
+    'comp', 'ver', 'vol', 'jq', 'yq',
+  ],
+  // 組み込みコマンドを使わず、設定ファイルのallowedCommandsだけを許可する
+  none: [],
+};
+
+export const DEFAULT_PROFILE = "full";
+
+// プロファイル未指定時に許可されるコマンド
+export const DEFAULT_ALLOWED_COMMANDS = new Set(BUILTIN_PROFILES[DEFAULT_PROFILE]);
+
+/**
+ * プロファイル名から許可するコマンドの一覧を解決する
+ *
+ * 設定ファイルで定義したプロファイルは extends で他のプロファイルを継承できる。
+ */
+export function resolveProfileCommands(profileName: string, config: Config): Set<string> {
+  const visited: string[] = [];
+  const resolve = (name: string): string[] => {
+    if (visited.includes(name)) {
+      throw new Error(`プロファイルが循環参照しています: ${[...visited, name].join(" -> ")}`);
+    }
+    visited.push(name);
+
+    const custom = config.profiles?.[name];
+    if (custom) {
+      return [...(custom.extends !== undefined ? resolve(custom.extends) : []), ...(custom.commands ?? [])];
+    }
+    if (name in BUILTIN_PROFILES) {
+      return BUILTIN_PROFILES[name];
+    }
+    throw new Error(`プロファイル '${name}' は定義されていません`);
+  };
+
+  return new Set(resolve(profileName));
+}
+
+/**
+ * 設定ファイルを反映した、実際に許可されるコマンドの一覧を返す
+ *
+ * defaultCommands はプロファイルが指定されていない場合に使われる。
+ */
+export function resolveAllowedCommands(config: Config, defaultCommands: Set<string>): Set<string> {
+  const commands = new Set(
+    config.profile !== undefined ? resolveProfileCommands(config.profile, config) : defaultCommands,
+  );
+  for (const categoryCommands of Object.values(config.allowedCommands || {})) {
+    categoryCommands.forEach((command) => commands.add(command));
+  }
+  for (const command of config.deniedCommands || []) {
+    commands.delete(command);
+  }
+  return commands;
+}
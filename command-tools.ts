@@ -0,0 +1,424 @@
+import { ErrorCode, McpError } from "npm:@modelcontextprotocol/sdk/types.js";
+import { readConfig } from "./config.ts";
+import type { Config } from "./config.ts";
+import { executeCommand } from "./command-executor.ts";
+import type { CommandExecutionResult } from "./command-executor.ts";
+import { executePipeline } from "./command-pipeline.ts";
+import type { PipelineStage } from "./command-pipeline.ts";
+import type { JobStatus } from "./job-manager.ts";
+import { DEFAULT_ALLOWED_COMMANDS, DEFAULT_PROFILE } from "./command-profiles.ts";
+import { describeAllowedCommands } from "./command-catalog.ts";
+import type { AllowedCommandInfo } from "./command-catalog.ts";
+import { textResult } from "./tool-registry.ts";
+import type { ToolDefinition, ToolResult } from "./tool-registry.ts";
+
+// 組み込みの許可コマンドはcommand-profiles.tsで定義し、設定ファイルのプロファイルで切り替える
+const ALLOWED_COMMANDS = DEFAULT_ALLOWED_COMMANDS;
+
+// コマンド実行結果をテキストと構造化データの両方を含むツール結果に変換する
+function commandResultToToolResult(result: CommandExecutionResult): ToolResult {
+  const exitCode = result.exitCode ?? 0;
+  const structured = {
+    commandLine: result.commandLine,
+    exitCode,
+    signal: result.signal ?? null,
+    durationMs: result.durationMs,
+    timedOut: result.timedOut ?? false,
+    truncated: result.truncated ?? false,
+    stdout: result.output,
+    stderr: result.error,
+    stages: result.stages,
+    outputFile: result.outputFile,
+  };
+
+  const lines = [
+    `$ ${structured.commandLine}`,
+    `終了コード: ${exitCode}${structured.signal ? ` (シグナル: ${structured.signal})` : ""} / 実行時間: ${structured.durationMs}ms`,
+  ];
+  if (structured.timedOut) {
+    lines.push("※ タイムアウトしたためプロセスを終了しました");
+  }
+  if (result.cancelled) {
+    lines.push("※ リクエストがキャンセルされたためプロセスを終了しました");
+  }
+  if (structured.truncated) {
+    lines.push("※ 出力が上限を超えたため切り詰めました");
+  }
+  for (const stage of result.stages ?? []) {
+    lines.push(`  [${stage.exitCode}${stage.signal ? ` ${stage.signal}` : ""}] ${stage.commandLine}`);
+  }
+  lines.push(
+    result.outputFile !== undefined
+      ? `標準出力: ${result.outputFile} に書き込みました`
+      : `標準出力:\n${result.output}`,
+    `標準エラー出力:\n${result.error}`,
+  );
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: lines.join("\n"),
+      },
+    ],
+    structuredContent: structured,
+    isError: exitCode !== 0 || structured.timedOut,
+  };
+}
+
+// ジョブの状態を1行のテキストに整形する
+function formatJobStatus(status: JobStatus): string {
+  const exit = status.state === "running"
+    ? ""
+    : ` 終了コード: ${status.exitCode}${status.signal ? ` (シグナル: ${status.signal})` : ""}`;
+  return `${status.jobId} [${status.state}] PID: ${status.pid} 経過: ${status.durationMs}ms${exit}\n  $ ${status.commandLine}`;
+}
+
+// コマンド実行とバックグラウンドジョブのツール
+export const commandTools: ToolDefinition[] = [
+  {
+    name: "execute_command",
+    description: "許可されたシェルコマンドを実行します。終了コード・シグナル・実行時間を含む構造化された結果を返し、終了コードが0以外の場合はエラーとして扱います",
+    inputSchema: {
+      type: "object",
+      properties: {
+        commandName: {
+          type: "string",
+          description: "実行するコマンド名。引数を含めた場合はシェルと同じ規則でクォートとエスケープを解釈します（パイプ・リダイレクト・変数展開は使用できません）",
+        },
+        args: {
+          type: "array",
+          items: {
+            type: "string"
+          },
+          description: "コマンドの引数",
+          default: []
+        },
+        timeoutMs: {
+          type: "number",
+          description: "タイムアウトまでのミリ秒数（省略時は設定ファイルの値。設定ファイルの値より長くはできません）",
+          minimum: 1
+        },
+        maxOutputBytes: {
+          type: "number",
+          description: "標準出力・標準エラー出力それぞれの最大バイト数（省略時は設定ファイルの値。設定ファイルの値より大きくはできません）",
+          minimum: 1
+        },
+        cwd: {
+          type: "string",
+          description: "作業ディレクトリ（許可されたディレクトリ内のみ）",
+        },
+        env: {
+          type: "object",
+          additionalProperties: {
+            type: "string"
+          },
+          description: "追加で設定する環境変数",
+        },
+        pipeline: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              commandName: {
+                type: "string",
+                description: "実行するコマンド名（引数を含めることもできます）",
+              },
+              args: {
+                type: "array",
+                items: {
+                  type: "string"
+                },
+                description: "コマンドの引数",
+              }
+            },
+            required: ["commandName"],
+          },
+          description: "パイプでつなぐコマンドの列（commandNameの代わりに指定）。各段の標準出力を次の段の標準入力に渡します",
+        },
+        stdin: {
+          type: "string",
+          description: "最初のコマンドの標準入力に渡す文字列",
+        },
+        outputFile: {
+          type: "string",
+          description: "最後のコマンドの標準出力を書き込むファイルのパス（許可されたディレクトリ内のみ）",
+        },
+        appendOutput: {
+          type: "boolean",
+          description: "outputFileに上書きせず追記するかどうか",
+          default: false
+        }
+      },
+      required: [],
+    },
+    async handler(params, context) {
+      const {
+        commandName,
+        args = [],
+        timeoutMs,
+        maxOutputBytes,
+        cwd,
+        env,
+        pipeline,
+        stdin,
+        outputFile,
+        appendOutput
+      } = params as { 
+        commandName?: string;
+        args?: string[];
+        timeoutMs?: number;
+        maxOutputBytes?: number;
+        cwd?: string;
+        env?: Record<string, string>;
+        pipeline?: PipelineStage[];
+        stdin?: string;
+        outputFile?: string;
+        appendOutput?: boolean;
+      };
+
+      if ((commandName === undefined) === (pipeline === undefined)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "commandName と pipeline のどちらか一方を指定してください",
+        );
+      }
+
+      try {
+        // 標準入力やファイルへの出力を伴う場合は1段のパイプラインとして実行する
+        const result = pipeline !== undefined || stdin !== undefined || outputFile !== undefined
+          ? await executePipeline({
+            stages: pipeline ?? [{ commandName: commandName!, args }],
+            stdin,
+            outputFile,
+            appendOutput,
+            // 出力先のファイルもほかのファイル操作と同じく取り消せるようにする
+            commitFileFn: (tempPath, filePath, options) =>
+              context.changes.commitFile("execute_command", tempPath, filePath, options),
+            allowedCommands: ALLOWED_COMMANDS,
+            timeoutMs,
+            maxOutputBytes,
+            cwd,
+            env,
+            onOutput: context.onOutput,
+            signal: context.signal
+          })
+          : await executeCommand({
+            commandName: commandName!,
+            args,
+            allowedCommands: ALLOWED_COMMANDS,
+            timeoutMs,
+            maxOutputBytes,
+            cwd,
+            env,
+            onOutput: context.onOutput,
+            signal: context.signal
+          });
+
+        return commandResultToToolResult(result);
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        throw new McpError(
+          ErrorCode.InternalError,
+          `コマンド実行エラー: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    },
+  },
+  {
+    name: "list_allowed_commands",
+    description: "実行可能なコマンドの一覧をカテゴリごとに返します。各コマンドの由来（組み込み/設定ファイル）とPATH上に存在するかどうかも返します",
+    inputSchema: {
+      type: "object",
+      properties: {}, // no arguments
+    },
+    async handler() {
+      // 設定ファイルのプロファイル・追加コマンド・拒否コマンドを反映した許可リストを求める
+      let config: Config = { allowedDirectories: [] };
+      try {
+        config = await readConfig();
+      } catch (error) {
+        console.error("追加コマンドの読み込みに失敗:", error);
+      }
+      const commands = await describeAllowedCommands(config, ALLOWED_COMMANDS);
+
+      // カテゴリごとにコマンドを整理
+      const commandsByCategory = new Map<string, AllowedCommandInfo[]>();
+      for (const info of commands) {
+        commandsByCategory.set(info.category, [...(commandsByCategory.get(info.category) || []), info]);
+      }
+
+      // 整形された出力を生成
+      const output = Array.from(commandsByCategory.entries())
+        .map(([category, infos]) => {
+          const { description, source } = infos[0];
+          const header = `${category}${source === "config" ? " (設定ファイル)" : ""}${description ? ` - ${description}` : ""}:`;
+          const lines = [header, `  ${infos.map((info) => info.command).join(", ")}`];
+          const missing = infos.filter((info) => !info.available).map((info) => info.command);
+          if (missing.length > 0) {
+            lines.push(`  ※ PATH上に見つからないコマンド: ${missing.join(", ")}`);
+          }
+          return lines.join("\n");
+        })
+        .join("\n\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: output,
+          },
+        ],
+        structuredContent: {
+          profile: config.profile ?? DEFAULT_PROFILE,
+          commands,
+        },
+      };
+    },
+  },
+  {
+    name: "start_command",
+    description: "許可されたコマンドをバックグラウンドジョブとして起動し、ジョブIDを返します。開発サーバーや時間のかかるテストの実行に使用します",
+    inputSchema: {
+      type: "object",
+      properties: {
+        commandName: {
+          type: "string",
+          description: "実行するコマンド名（引数を含めることもできます）",
+        },
+        args: {
+          type: "array",
+          items: {
+            type: "string"
+          },
+          description: "コマンドの引数",
+          default: []
+        },
+        cwd: {
+          type: "string",
+          description: "作業ディレクトリ（許可されたディレクトリ内のみ）",
+        },
+        env: {
+          type: "object",
+          additionalProperties: {
+            type: "string"
+          },
+          description: "追加で設定する環境変数",
+        },
+        timeoutMs: {
+          type: "number",
+          description: "指定した場合、このミリ秒数を過ぎるとジョブを終了させます",
+          minimum: 1
+        },
+        maxOutputBytes: {
+          type: "number",
+          description: "保持する出力の最大バイト数（超えた分は古いものから破棄します。設定ファイルの値より大きくはできません）",
+          minimum: 1
+        }
+      },
+      required: ["commandName"],
+    },
+    async handler(params, context) {
+      const { commandName, args = [], cwd, env, timeoutMs, maxOutputBytes } = params as {
+        commandName: string;
+        args?: string[];
+        cwd?: string;
+        env?: Record<string, string>;
+        timeoutMs?: number;
+        maxOutputBytes?: number;
+      };
+      const status = await context.jobs.start({
+        commandName,
+        args,
+        allowedCommands: ALLOWED_COMMANDS,
+        cwd,
+        env,
+        timeoutMs,
+        maxOutputBytes
+      });
+      return textResult(
+        `ジョブ ${status.jobId} を起動しました (PID: ${status.pid})\n$ ${status.commandLine}`,
+        status,
+      );
+    },
+  },
+  {
+    name: "get_job_output",
+    description: "ジョブの標準出力・標準エラー出力のうち、カーソル以降のものを返します",
+    inputSchema: {
+      type: "object",
+      properties: {
+        jobId: {
+          type: "string",
+          description: "ジョブID",
+        },
+        cursor: {
+          type: "number",
+          description: "前回の結果のnextCursor（省略時は保持している最初から）",
+          default: 0
+        }
+      },
+      required: ["jobId"],
+    },
+    handler(params, context) {
+      const { jobId, cursor = 0 } = params as {
+        jobId: string;
+        cursor?: number;
+      };
+      const output = context.jobs.output(jobId, cursor);
+      const lines = [`ジョブ ${jobId} (${output.state}) 次のカーソル: ${output.nextCursor}`];
+      if (output.dropped) {
+        lines.push("※ 保持上限を超えた古い出力は破棄されました");
+      }
+      lines.push(`標準出力:\n${output.stdout}`, `標準エラー出力:\n${output.stderr}`);
+      return Promise.resolve(textResult(lines.join("\n"), output));
+    },
+  },
+  {
+    name: "get_job_status",
+    description: "ジョブの状態と終了コードを返します。jobIdを省略した場合はすべてのジョブを返します",
+    inputSchema: {
+      type: "object",
+      properties: {
+        jobId: {
+          type: "string",
+          description: "ジョブID",
+        }
+      },
+      required: [],
+    },
+    handler(params, context) {
+      const { jobId } = params as {
+        jobId?: string;
+      };
+      const statuses = jobId !== undefined ? [context.jobs.status(jobId)] : context.jobs.list();
+      const text = statuses.length > 0
+        ? statuses.map(formatJobStatus).join("\n")
+        : "ジョブはありません";
+      return Promise.resolve(textResult(text, jobId !== undefined ? statuses[0] : { jobs: statuses }));
+    },
+  },
+  {
+    name: "kill_job",
+    description: "ジョブを子プロセスごと終了させます",
+    inputSchema: {
+      type: "object",
+      properties: {
+        jobId: {
+          type: "string",
+          description: "ジョブID",
+        }
+      },
+      required: ["jobId"],
+    },
+    async handler(params, context) {
+      const { jobId } = params as {
+        jobId: string;
+      };
+      const status = await context.jobs.kill(jobId);
+      return textResult(formatJobStatus(status), status);
+    },
+  },
+];
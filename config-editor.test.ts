@@ -0,0 +1,66 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { applyConfigEdits, planConfigUpdate, setTomlArray } from "./config-editor.ts";
+import type { Config } from "./config.ts";
+
+const CONTENT = `# ディレクトリアクセス許可
+allowedDirectories = [
+  "/a", # メイン
+  "/b",
+]
+
+[allowedCommands]
+system = ["ls"] # 基本のコマンド
+
+[llm]
+enabled = false
+`;
+
+Deno.test("setTomlArray - コメントや他の項目を残して配列を書き換え、ない項目とテーブルは追加する", () => {
+  assertEquals(
+    setTomlArray(CONTENT, [], "allowedDirectories", ["/a", "/c"]),
+    CONTENT.replace('[\n  "/a", # メイン\n  "/b",\n]', '[\n  "/a",\n  "/c",\n]'),
+  );
+  assertEquals(
+    setTomlArray(CONTENT, ["allowedCommands"], "system", ["ls", "cat"]),
+    CONTENT.replace('system = ["ls"]', 'system = ["ls", "cat"]'),
+  );
+
+  const added = setTomlArray(setTomlArray(CONTENT, [], "deniedCommands", ["curl"]), ["allowedCommands"], "custom", ["jq"]);
+  assertEquals(added.split("\n").slice(5, 7), ['deniedCommands = ["curl"]', ""]);
+  assertEquals(added.split("\n").slice(7, 10), ["[allowedCommands]", 'system = ["ls"] # 基本のコマンド', 'custom = ["jq"]']);
+
+  const created = setTomlArray("", ["profiles", "mine"], "commands", ["git"]);
+  assertEquals(created, '[profiles.mine]\ncommands = ["git"]\n');
+});
+
+Deno.test("planConfigUpdate - 権限を広げる変更を区別する", async () => {
+  const dir = await Deno.realPath(await Deno.makeTempDir());
+  const sub = `${dir}/sub`;
+  await Deno.mkdir(sub);
+  try {
+    const config: Config = {
+      allowedDirectories: [dir],
+      profile: "none",
+      allowedCommands: { system: ["ls", "cat"] },
+      deniedCommands: ["curl"],
+    };
+
+    // 許可されたディレクトリの中のディレクトリの追加とコマンドの削除は権限を広げない
+    const narrowing = await planConfigUpdate(config, { addDirectories: [sub], removeCommands: ["cat"] });
+    assertEquals(narrowing.widening, []);
+    assertEquals(
+      applyConfigEdits(`allowedDirectories = ["${dir}"]\n[allowedCommands]\nsystem = ["ls", "cat"]\n`, narrowing.edits),
+      `allowedDirectories = ["${dir}", "${sub}"]\n[allowedCommands]\nsystem = ["ls"]\n`,
+    );
+
+    const widening = await planConfigUpdate(config, { removeDirectories: [dir], addCommands: ["curl", "ls"] });
+    assertEquals(widening.widening, ["コマンドの実行を許可: curl"]);
+    assertEquals(widening.edits, [
+      { table: [], key: "allowedDirectories", values: [] },
+      { table: ["allowedCommands"], key: "custom", values: ["curl"] },
+      { table: [], key: "deniedCommands", values: [] },
+    ]);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,257 @@
+import * as path from "@std/path";
+import { ErrorCode, McpError } from "npm:@modelcontextprotocol/sdk/types.js";
+import type { Config } from "./config.ts";
+import { splitTomlKey } from "./config-schema.ts";
+import { DEFAULT_ALLOWED_COMMANDS, resolveAllowedCommands } from "./command-profiles.ts";
+import { isPathWithin, resolveConfiguredDirectory } from "./path-validator.ts";
+
+/**
+ * update_configで指定できる変更
+ */
+export interface ConfigUpdate {
+  addDirectories?: string[];
+  removeDirectories?: string[];
+  addCommands?: string[];
+  removeCommands?: string[];
+  // 追加したコマンドを入れる allowedCommands のカテゴリ
+  category?: string;
+}
+
+/**
+ * 設定ファイルの文字列の配列の書き換え (table が空の場合はトップレベルの項目)
+ */
+export interface ConfigEdit {
+  table: string[];
+  key: string;
+  values: string[];
+}
+
+/**
+ * 設定ファイルの変更内容
+ */
+export interface ConfigUpdatePlan {
+  edits: ConfigEdit[];
+  // 変更の説明
+  changes: string[];
+  // 権限を広げる変更の説明 (ユーザーの確認が必要)
+  widening: string[];
+}
+
+// 追加したコマンドを入れるカテゴリのデフォルト
+const DEFAULT_COMMAND_CATEGORY = "custom";
+
+function sameValues(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((value, index) => value === b[index]);
+}
+
+/**
+ * 設定に対する変更を計画する
+ *
+ * ディレクトリは絶対パスにして追加し、既に許可されたディレクトリの外にあるものは権限を広げる変更とする。
+ * コマンドの追加は deniedCommands から外すか allowedCommands に加え、削除は allowedCommands から外しても
+ * プロファイルで許可されたままの場合は deniedCommands に加える。
+ */
+export async function planConfigUpdate(config: Config, update: ConfigUpdate): Promise<ConfigUpdatePlan> {
+  const edits: ConfigEdit[] = [];
+  const changes: string[] = [];
+  const widening: string[] = [];
+
+  let directories = [...config.allowedDirectories];
+  const realDirectories = await Promise.all(directories.map(resolveConfiguredDirectory));
+  for (const dir of update.addDirectories ?? []) {
+    const absolute = path.resolve(dir);
+    let realPath: string;
+    try {
+      realPath = await Deno.realPath(absolute);
+      if (!(await Deno.stat(realPath)).isDirectory) {
+        throw new Error();
+      }
+    } catch {
+      throw new McpError(ErrorCode.InvalidParams, `'${dir}' は存在するディレクトリではありません`);
+    }
+    if ((await Promise.all(directories.map(resolveConfiguredDirectory))).includes(realPath)) {
+      continue;
+    }
+    directories.push(absolute);
+    changes.push(`許可するディレクトリに追加: ${absolute}`);
+    if (!realDirectories.some((allowed) => isPathWithin(allowed, realPath))) {
+      widening.push(`ディレクトリへのアクセスを許可: ${absolute}`);
+    }
+  }
+  for (const dir of update.removeDirectories ?? []) {
+    const target = await resolveConfiguredDirectory(path.resolve(dir));
+    const remaining: string[] = [];
+    for (const allowed of directories) {
+      if (await resolveConfiguredDirectory(allowed) !== target) {
+        remaining.push(allowed);
+      }
+    }
+    if (remaining.length === directories.length) {
+      throw new McpError(ErrorCode.InvalidParams, `'${dir}' は許可されたディレクトリに含まれていません`);
+    }
+    directories = remaining;
+    changes.push(`許可するディレクトリから削除: ${dir}`);
+  }
+  if (!sameValues(directories, config.allowedDirectories)) {
+    edits.push({ table: [], key: "allowedDirectories", values: directories });
+  }
+
+  const allowedBefore = resolveAllowedCommands(config, DEFAULT_ALLOWED_COMMANDS);
+  const category = update.category ?? DEFAULT_COMMAND_CATEGORY;
+  const updated: Config = {
+    ...config,
+    deniedCommands: [...(config.deniedCommands ?? [])],
+    allowedCommands: Object.fromEntries(
+      Object.entries(config.allowedCommands ?? {}).map(([name, commands]) => [name, [...commands]]),
+    ),
+  };
+  for (const command of update.addCommands ?? []) {
+    if (!/^[^\s/\\]+$/.test(command)) {
+      throw new McpError(ErrorCode.InvalidParams, `'${command}' はコマンド名として指定できません`);
+    }
+    if (allowedBefore.has(command)) {
+      continue;
+    }
+    updated.deniedCommands = updated.deniedCommands!.filter((denied) => denied !== command);
+    if (!resolveAllowedCommands(updated, DEFAULT_ALLOWED_COMMANDS).has(command)) {
+      updated.allowedCommands![category] = [...(updated.allowedCommands![category] ?? []), command];
+    }
+    changes.push(`コマンドを許可: ${command}`);
+    widening.push(`コマンドの実行を許可: ${command}`);
+  }
+  for (const command of update.removeCommands ?? []) {
+    if (!allowedBefore.has(command)) {
+      continue;
+    }
+    for (const [name, commands] of Object.entries(updated.allowedCommands!)) {
+      updated.allowedCommands![name] = commands.filter((allowed) => allowed !== command);
+    }
+    if (resolveAllowedCommands(updated, DEFAULT_ALLOWED_COMMANDS).has(command)) {
+      updated.deniedCommands!.push(command);
+    }
+    changes.push(`コマンドの許可を取り消し: ${command}`);
+  }
+  for (const [name, commands] of Object.entries(updated.allowedCommands!)) {
+    if (!sameValues(commands, config.allowedCommands?.[name] ?? [])) {
+      edits.push({ table: ["allowedCommands"], key: name, values: commands });
+    }
+  }
+  if (!sameValues(updated.deniedCommands!, config.deniedCommands ?? [])) {
+    edits.push({ table: [], key: "deniedCommands", values: updated.deniedCommands! });
+  }
+
+  return { edits, changes, widening };
+}
+
+/**
+ * TOMLの配列の終わり (閉じ括弧の次の位置) を探す
+ */
+function findArrayEnd(content: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < content.length; i++) {
+    const char = content[i];
+    if (char === '"' || char === "'") {
+      // 文字列の中の括弧は数えない
+      for (i++; i < content.length && content[i] !== char; i++) {
+        if (char === '"' && content[i] === "\\") {
+          i++;
+        }
+      }
+    } else if (char === "#") {
+      while (i < content.length && content[i] !== "\n") {
+        i++;
+      }
+    } else if (char === "[") {
+      depth++;
+    } else if (char === "]" && --depth === 0) {
+      return i + 1;
+    }
+  }
+  throw new Error("配列が閉じられていません");
+}
+
+function formatKey(key: string): string {
+  return /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key);
+}
+
+function formatArray(values: string[], multiline: boolean, indent: string): string {
+  if (!multiline || values.length === 0) {
+    return `[${values.map((value) => JSON.stringify(value)).join(", ")}]`;
+  }
+  return `[\n${values.map((value) => `${indent}  ${JSON.stringify(value)},\n`).join("")}${indent}]`;
+}
+
+/**
+ * TOMLの内容の文字列の配列を書き換える
+ *
+ * コメントや他の項目はそのまま残す。項目がない場合はテーブルの最後に追加し、テーブルがない場合はファイルの最後に追加する。
+ */
+export function setTomlArray(content: string, table: string[], key: string, values: string[]): string {
+  let currentTable: string[] = [];
+  // 対象のテーブルで、項目を追加する位置 (テーブルがない場合はundefined)
+  let insertAt: number | undefined = table.length === 0 ? 0 : undefined;
+  let offset = 0;
+  while (offset < content.length) {
+    const lineEnd = content.indexOf("\n", offset) === -1 ? content.length : content.indexOf("\n", offset) + 1;
+    const line = content.slice(offset, lineEnd);
+    const header = /^\s*\[\[?([^\]]+)\]\]?\s*(#.*)?$/.exec(line.trimEnd());
+    if (header) {
+      currentTable = splitTomlKey(header[1]);
+      if (sameValues(currentTable, table)) {
+        insertAt = lineEnd;
+      }
+      offset = lineEnd;
+      continue;
+    }
+
+    const assignment = /^(\s*)((?:"(?:[^"\\]|\\.)*"|'[^']*'|[A-Za-z0-9_.\s-])+?)\s*=\s*/.exec(line);
+    if (assignment === null) {
+      offset = lineEnd;
+      continue;
+    }
+    const keys = [...currentTable, ...splitTomlKey(assignment[2])];
+    const valueStart = offset + assignment[0].length;
+    let end = lineEnd;
+    if (content[valueStart] === "[") {
+      const valueEnd = findArrayEnd(content, valueStart);
+      if (sameValues(keys, [...table, key])) {
+        const multiline = content.slice(valueStart, valueEnd).includes("\n");
+        return content.slice(0, valueStart) + formatArray(values, multiline, assignment[1]) + content.slice(valueEnd);
+      }
+      // 複数行の配列は閉じ括弧の行まで読み飛ばす
+      end = content.indexOf("\n", valueEnd) === -1 ? content.length : content.indexOf("\n", valueEnd) + 1;
+    }
+    if (sameValues(currentTable, table)) {
+      insertAt = end;
+    }
+    offset = end;
+  }
+
+  const assignment = `${formatKey(key)} = ${formatArray(values, false, "")}\n`;
+  if (insertAt !== undefined) {
+    const before = content.slice(0, insertAt);
+    return `${before}${before.length > 0 && !before.endsWith("\n") ? "\n" : ""}${assignment}${content.slice(insertAt)}`;
+  }
+  const separator = content.length === 0 ? "" : content.endsWith("\n") ? "\n" : "\n\n";
+  return `${content}${separator}[${table.map(formatKey).join(".")}]\n${assignment}`;
+}
+
+/**
+ * 計画した書き換えをTOMLの内容に適用する
+ */
+export function applyConfigEdits(content: string, edits: ConfigEdit[]): string {
+  return edits.reduce((current, edit) => setTomlArray(current, edit.table, edit.key, edit.values), content);
+}
+
+/**
+ * 書き換えた設定ファイルを読み込んだ結果に、計画した値が反映されているかを確認する
+ */
+export function hasConfigEdits(config: Config, edits: ConfigEdit[]): boolean {
+  return edits.every((edit) => {
+    let value: unknown = config;
+    for (const key of [...edit.table, edit.key]) {
+      value = typeof value === "object" && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+    }
+    return Array.isArray(value) && sameValues(value, edit.values);
+  });
+}
@@ -0,0 +1,46 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import * as toml from "@std/toml";
+import { ConfigValidationError, validateConfig } from "./config-schema.ts";
+
+function issuesOf(content: string) {
+  try {
+    validateConfig(toml.parse(content), content, "test.toml");
+    return [];
+  } catch (error) {
+    return error instanceof ConfigValidationError ? error.issues : [];
+  }
+}
+
+Deno.test("validateConfig - 正しい設定はそのまま返す", () => {
+  const content = [
+    'allowedDirectories = ["/tmp"]',
+    'profile = "dev"',
+    "[directoryModes]",
+    '"/tmp/docs" = "read-only"',
+    "[execution.env]",
+    'allow = ["PATH"]',
+  ].join("\n");
+  assertEquals(validateConfig(toml.parse(content), content, "test.toml").profile, "dev");
+});
+
+Deno.test("validateConfig - 不明な設定項目と型の誤りを行番号付きで報告する", () => {
+  const issues = issuesOf([
+    'allowedDirectory = ["/tmp"]',
+    "",
+    "[directoryModes]",
+    '"/tmp/docs" = "readonly"',
+    "",
+    "[execution]",
+    'timeoutMs = "10s"',
+    "env.allow = [1]",
+  ].join("\n"));
+
+  assertEquals(issues.map((issue) => [issue.line, issue.path]), [
+    [undefined, "allowedDirectories"],
+    [1, "allowedDirectory"],
+    [4, 'directoryModes."/tmp/docs"'],
+    [7, "execution.timeoutMs"],
+    [8, "execution.env.allow[0]"],
+  ]);
+  assertEquals(issues[1].message.includes("allowedDirectories の誤りではありませんか"), true);
+});
@@ -0,0 +1,372 @@
+import type { Config } from "./config.ts";
+
+/**
+ * 設定値のスキーマ
+ *
+ * record は任意のキーを持つテーブルで、値はすべて values に従う。
+ */
+export type ConfigSchema =
+  | { type: "string"; enum?: readonly string[] }
+  | { type: "number"; integer?: boolean; minimum?: number }
+  | { type: "boolean" }
+  | { type: "array"; items: ConfigSchema }
+  | { type: "object"; properties: Record<string, ConfigSchema>; required?: string[] }
+  | { type: "record"; values: ConfigSchema };
+
+const stringList: ConfigSchema = { type: "array", items: { type: "string" } };
+
+const directoryModes: ConfigSchema = {
+  type: "record",
+  values: { type: "string", enum: ["read-only", "read-write", "no-delete"] },
+};
+
+const executionLimitProperties: Record<string, ConfigSchema> = {
+  timeoutMs: { type: "number", integer: true, minimum: 1 },
+  maxOutputBytes: { type: "number", integer: true, minimum: 1 },
+};
+
+/**
+ * 設定ファイルのスキーマ (Config型と対応させる)
+ */
+export const CONFIG_SCHEMA: ConfigSchema = {
+  type: "object",
+  required: ["allowedDirectories"],
+  properties: {
+    allowedDirectories: stringList,
+    deniedPatterns: stringList,
+    directoryModes,
+    profile: { type: "string" },
+    profiles: {
+      type: "record",
+      values: { type: "object", properties: { extends: { type: "string" }, commands: stringList } },
+    },
+    allowedCommands: { type: "record", values: stringList },
+    deniedCommands: stringList,
+    commandRules: {
+      type: "record",
+      values: {
+        type: "object",
+        properties: {
+          ...executionLimitProperties,
+          allowSubcommands: stringList,
+          denySubcommands: stringList,
+          allowArgs: stringList,
+          denyArgs: stringList,
+        },
+      },
+    },
+    execution: {
+      type: "object",
+      properties: {
+        ...executionLimitProperties,
+        env: { type: "object", properties: { allow: stringList, deny: stringList } },
+      },
+    },
+    backup: {
+      type: "object",
+      properties: {
+        enabled: { type: "boolean" },
+        directory: { type: "string" },
+        maxChanges: { type: "number", integer: true, minimum: 1 },
+      },
+    },
+    audit: {
+      type: "object",
+      properties: {
+        enabled: { type: "boolean" },
+        file: { type: "string" },
+        redact: stringList,
+        maxBytes: { type: "number", integer: true, minimum: 1 },
+        maxFiles: { type: "number", integer: true, minimum: 1 },
+      },
+    },
+    approval: {
+      type: "object",
+      properties: {
+        tools: stringList,
+        commands: stringList,
+        timeoutMs: { type: "number", integer: true, minimum: 1 },
+      },
+    },
+    llm: { type: "object", required: ["enabled"], properties: { enabled: { type: "boolean" } } },
+  },
+};
+
+/**
+ * プロジェクトの設定ファイルのスキーマ (ProjectConfig型と対応させる)
+ */
+export const PROJECT_CONFIG_SCHEMA: ConfigSchema = {
+  type: "object",
+  properties: {
+    allowedDirectories: stringList,
+    deniedPatterns: stringList,
+    directoryModes,
+    profile: { type: "string" },
+    deniedCommands: stringList,
+    execution: { type: "object", properties: executionLimitProperties },
+  },
+};
+
+/**
+ * 設定ファイルの問題点
+ */
+export interface ConfigIssue {
+  // 問題のある設定項目 (例: execution.env.allow[2])
+  path: string;
+  message: string;
+  // 設定ファイル上の行番号 (特定できない場合はundefined)
+  line?: number;
+}
+
+/**
+ * 設定ファイルの内容がスキーマに合わない場合のエラー
+ */
+export class ConfigValidationError extends Error {
+  constructor(readonly filePath: string, readonly issues: ConfigIssue[]) {
+    super(
+      [
+        `設定ファイルの内容が不正です: ${filePath}`,
+        ...issues.map((issue) => `  ${issue.line !== undefined ? `${issue.line}行目: ` : ""}${issue.path}: ${issue.message}`),
+      ].join("\n"),
+    );
+    this.name = "ConfigValidationError";
+  }
+}
+
+/**
+ * 2つの文字列の編集距離を求める
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current.push(Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1),
+      ));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * 不明なキーに近い既知のキーを探す
+ */
+function suggestKey(key: string, candidates: string[]): string | undefined {
+  let best: { key: string; distance: number } | undefined;
+  for (const candidate of candidates) {
+    const distance = editDistance(key, candidate);
+    if (distance <= Math.max(2, Math.floor(candidate.length / 4)) && (!best || distance < best.distance)) {
+      best = { key: candidate, distance };
+    }
+  }
+  return best?.key;
+}
+
+function describeType(value: unknown): string {
+  if (Array.isArray(value)) {
+    return "配列";
+  }
+  if (value instanceof Date) {
+    return "日時";
+  }
+  switch (typeof value) {
+    case "string":
+      return "文字列";
+    case "number":
+      return "数値";
+    case "boolean":
+      return "真偽値";
+    case "object":
+      return value === null ? "null" : "テーブル";
+    default:
+      return typeof value;
+  }
+}
+
+const EXPECTED_TYPE_NAMES: Record<ConfigSchema["type"], string> = {
+  string: "文字列",
+  number: "数値",
+  boolean: "真偽値",
+  array: "配列",
+  object: "テーブル",
+  record: "テーブル",
+};
+
+// 検証中の問題点 (キーの並びは行番号を求めるために分けたまま持つ)
+type KeyedIssue = { keys: (string | number)[]; message: string };
+
+function isTable(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * 値がスキーマの型に一致するか判定する
+ */
+function matchesType(value: unknown, type: ConfigSchema["type"]): boolean {
+  switch (type) {
+    case "array":
+      return Array.isArray(value);
+    case "object":
+    case "record":
+      return isTable(value);
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number";
+    case "boolean":
+      return typeof value === "boolean";
+  }
+}
+
+/**
+ * 値をスキーマと照合し、問題点を issues に追加する
+ */
+function validateValue(value: unknown, schema: ConfigSchema, keys: (string | number)[], issues: KeyedIssue[]) {
+  if (!matchesType(value, schema.type)) {
+    issues.push({ keys, message: `${EXPECTED_TYPE_NAMES[schema.type]}を指定してください (${describeType(value)}が指定されています)` });
+    return;
+  }
+
+  switch (schema.type) {
+    case "string":
+      if (schema.enum && !schema.enum.includes(value as string)) {
+        issues.push({ keys, message: `'${value}' は指定できません (${schema.enum.join(", ")} のいずれかを指定してください)` });
+      }
+      break;
+    case "number":
+      if (schema.integer && !Number.isInteger(value)) {
+        issues.push({ keys, message: "整数を指定してください" });
+      } else if (schema.minimum !== undefined && (value as number) < schema.minimum) {
+        issues.push({ keys, message: `${schema.minimum}以上の値を指定してください` });
+      }
+      break;
+    case "array":
+      (value as unknown[]).forEach((item, index) => validateValue(item, schema.items, [...keys, index], issues));
+      break;
+    case "record":
+      for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+        validateValue(item, schema.values, [...keys, key], issues);
+      }
+      break;
+    case "object": {
+      const table = value as Record<string, unknown>;
+      const known = Object.keys(schema.properties);
+      for (const key of schema.required ?? []) {
+        if (!(key in table)) {
+          issues.push({ keys: [...keys, key], message: "必須の設定項目がありません" });
+        }
+      }
+      for (const [key, item] of Object.entries(table)) {
+        const propertySchema = schema.properties[key];
+        if (propertySchema === undefined) {
+          const suggestion = suggestKey(key, known);
+          issues.push({
+            keys: [...keys, key],
+            message: `不明な設定項目です${suggestion ? ` (${suggestion} の誤りではありませんか)` : ""}`,
+          });
+          continue;
+        }
+        validateValue(item, propertySchema, [...keys, key], issues);
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * 設定項目のキーの並びを「a.b[0]」の形式にする
+ */
+function formatKeyPath(keys: (string | number)[]): string {
+  return keys.map((key, index) =>
+    typeof key === "number"
+      ? `[${key}]`
+      : `${index > 0 ? "." : ""}${/^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key)}`
+  ).join("");
+}
+
+/**
+ * TOMLのキーの並び (「a."b.c".d」など) を個々のキーに分ける
+ */
+export function splitTomlKey(text: string): string[] {
+  const keys: string[] = [];
+  const pattern = /\s*(?:"((?:[^"\\]|\\.)*)"|'([^']*)'|([A-Za-z0-9_-]+))\s*(?:\.|$)/gy;
+  let match: RegExpExecArray | null;
+  while (pattern.lastIndex < text.length && (match = pattern.exec(text)) !== null) {
+    keys.push(match[1] !== undefined ? JSON.parse(`"${match[1]}"`) : match[2] ?? match[3]);
+  }
+  return keys;
+}
+
+/**
+ * TOMLの内容から、各設定項目が定義されている行番号を求める
+ *
+ * キーの並びをJSONにした文字列をキーにした Map を返す。テーブルはヘッダーの行になる。
+ */
+function locateTomlKeys(content: string): Map<string, number> {
+  const lines = new Map<string, number>();
+  let table: string[] = [];
+  for (const [index, line] of content.split(/\r?\n/).entries()) {
+    const header = /^\s*\[\[?([^\]]+)\]\]?\s*(#.*)?$/.exec(line);
+    if (header) {
+      table = splitTomlKey(header[1]);
+      if (!lines.has(JSON.stringify(table))) {
+        lines.set(JSON.stringify(table), index + 1);
+      }
+      continue;
+    }
+    const assignment = /^\s*((?:"(?:[^"\\]|\\.)*"|'[^']*'|[A-Za-z0-9_.\s-])+?)\s*=/.exec(line);
+    if (assignment) {
+      const keys = [...table, ...splitTomlKey(assignment[1])];
+      // ドットで区切ったキーは途中のテーブルも同じ行で定義されたものとして扱う
+      for (let i = table.length + 1; i <= keys.length; i++) {
+        const key = JSON.stringify(keys.slice(0, i));
+        if (!lines.has(key)) {
+          lines.set(key, index + 1);
+        }
+      }
+    }
+  }
+  return lines;
+}
+
+/**
+ * 設定項目の行番号を求める (配列の要素などは最も近い親の行を使う)
+ */
+function findLine(issueKeys: (string | number)[], lines: Map<string, number>): number | undefined {
+  const keys = issueKeys.filter((key): key is string => typeof key === "string");
+  for (let i = keys.length; i > 0; i--) {
+    const line = lines.get(JSON.stringify(keys.slice(0, i)));
+    if (line !== undefined) {
+      return line;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 設定ファイルの内容をスキーマで検証して返す
+ *
+ * スキーマに合わない場合は、行番号を含む ConfigValidationError を投げる。
+ */
+export function validateConfig<T = Config>(
+  value: unknown,
+  content: string,
+  filePath: string,
+  schema: ConfigSchema = CONFIG_SCHEMA
+): T {
+  const issues: KeyedIssue[] = [];
+  validateValue(value, schema, [], issues);
+  if (issues.length === 0) {
+    return value as T;
+  }
+
+  const lines = locateTomlKeys(content);
+  throw new ConfigValidationError(
+    filePath,
+    issues.map((issue) => ({ path: formatKeyPath(issue.keys), message: issue.message, line: findLine(issue.keys, lines) })),
+  );
+}
@@ -0,0 +1,132 @@
+import * as path from "@std/path";
+import { ErrorCode, McpError } from "npm:@modelcontextprotocol/sdk/types.js";
+import { configStore, parseConfigFile } from "./config.ts";
+import type { Config } from "./config.ts";
+import { applyConfigEdits, hasConfigEdits, planConfigUpdate } from "./config-editor.ts";
+import type { ConfigUpdate } from "./config-editor.ts";
+import { atomicWriteFile } from "./change-journal.ts";
+import { textResult } from "./tool-registry.ts";
+import type { ToolDefinition } from "./tool-registry.ts";
+
+const stringArray = { type: "array", items: { type: "string" } };
+
+/**
+ * 設定ファイルの内容を読み込む (ファイルが存在しない場合は空)
+ */
+async function readConfigContent(configFile: string): Promise<string> {
+  try {
+    return await Deno.readTextFile(configFile);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return "";
+    }
+    throw error;
+  }
+}
+
+// 設定ファイルを扱うツール
+export const configTools: ToolDefinition[] = [
+  {
+    name: "get_config",
+    description: "現在有効な設定 (プロジェクトの設定ファイルを反映したもの) と、その読み込み元のファイルを返します",
+    inputSchema: {
+      type: "object",
+      properties: {}, // no arguments
+    },
+    async handler() {
+      const config = await configStore.get();
+      const sources = configStore.getSources();
+      const lines = [`設定ファイル: ${sources.configFile}`];
+      if (sources.projectConfigFile !== undefined) {
+        lines.push(`プロジェクトの設定ファイル: ${sources.projectConfigFile}`);
+      }
+      lines.push("", JSON.stringify(config, null, 2));
+      return textResult(lines.join("\n"), { ...sources, config });
+    },
+  },
+  {
+    name: "update_config",
+    description:
+      "ユーザーの設定ファイルの許可するディレクトリとコマンドを追加・削除します。" +
+      "変更は検証してから書き込み、コメントなど他の内容は残します。" +
+      "権限を広げる変更はユーザーが承認した場合だけ書き込みます",
+    inputSchema: {
+      type: "object",
+      properties: {
+        addDirectories: { ...stringArray, description: "許可するディレクトリに追加するパス" },
+        removeDirectories: { ...stringArray, description: "許可するディレクトリから削除するパス" },
+        addCommands: { ...stringArray, description: "許可するコマンド" },
+        removeCommands: { ...stringArray, description: "許可を取り消すコマンド" },
+        category: {
+          type: "string",
+          description: "追加したコマンドを入れるallowedCommandsのカテゴリ",
+          default: "custom",
+        },
+      },
+    },
+    async handler(params, context) {
+      const update = params as ConfigUpdate;
+      const { configFile } = configStore.getSources();
+      const content = await readConfigContent(configFile);
+      const config = content !== "" ? parseConfigFile(configFile, content) : { allowedDirectories: [] };
+
+      const plan = await planConfigUpdate(config, update);
+      if (plan.changes.length === 0) {
+        return textResult("変更はありません", { applied: false, configFile, changes: [], widening: [] });
+      }
+      // モデルが自分の権限を広げられないよう、権限を広げる変更はユーザーが承認した場合だけ反映する
+      // (承認ルールでこの呼び出しを承認済みの場合は、改めて確認しない)
+      if (plan.widening.length > 0 && context.approval?.decision !== "accept") {
+        const decision = await context.confirm?.(
+          "update_config:widening",
+          [
+            "次の変更は権限を広げます。設定ファイルに書き込みますか？",
+            ...plan.widening.map((change) => `- ${change}`),
+            `設定ファイル: ${configFile}`,
+          ].join("\n"),
+        ) ?? "unavailable";
+        if (decision !== "accept") {
+          return {
+            ...textResult(
+              [
+                decision === "unavailable"
+                  ? "次の変更は権限を広げるためユーザーの承認が必要ですが、確認できなかったため書き込みません。" +
+                    "必要な場合はユーザーに設定ファイルを直接編集するよう依頼してください:"
+                  : "ユーザーが承認しなかったため、権限を広げる次の変更は書き込みません:",
+                ...plan.widening.map((change) => `- ${change}`),
+                `設定ファイル: ${configFile}`,
+              ].join("\n"),
+              { applied: false, configFile, changes: plan.changes, widening: plan.widening, approval: decision },
+            ),
+            isError: true,
+          };
+        }
+      }
+
+      const updatedContent = applyConfigEdits(content, plan.edits);
+      let updated: Config;
+      try {
+        updated = parseConfigFile(configFile, updatedContent);
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          `変更後の設定ファイルが不正になるため書き込みません: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      if (!hasConfigEdits(updated, plan.edits)) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          `設定ファイルの書き方を自動で更新できないため書き込みません。手動で編集してください: ${configFile}`
+        );
+      }
+
+      await Deno.mkdir(path.dirname(configFile), { recursive: true });
+      await atomicWriteFile(configFile, updatedContent);
+      await configStore.reload();
+      return textResult(
+        [`設定ファイルを更新しました: ${configFile}`, ...plan.changes.map((change) => `- ${change}`)].join("\n"),
+        { applied: true, configFile, changes: plan.changes, widening: plan.widening },
+      );
+    },
+  },
+];
@@ -0,0 +1,84 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { ConfigStore } from "./config.ts";
+
+Deno.test("ConfigStore - 読み込んだ設定をキャッシュし、読み込み直しに失敗した場合は前回の設定を使い続ける", async () => {
+  const file = await Deno.makeTempFile({ suffix: ".toml" });
+  try {
+    await Deno.writeTextFile(file, 'allowedDirectories = ["/a"]\n');
+    const store = new ConfigStore(file);
+    assertEquals((await store.get()).allowedDirectories, ["/a"]);
+
+    // 監視していない場合は読み込み直すまで変わらない
+    await Deno.writeTextFile(file, 'allowedDirectories = ["/b"]\n');
+    assertEquals((await store.get()).allowedDirectories, ["/a"]);
+    await store.reload();
+    assertEquals((await store.get()).allowedDirectories, ["/b"]);
+
+    await Deno.writeTextFile(file, 'allowedDirectory = ["/c"]\n');
+    let message = "";
+    try {
+      await store.reload();
+    } catch (error) {
+      message = error instanceof Error ? error.message : String(error);
+    }
+    assertEquals(message.includes("1行目: allowedDirectory: 不明な設定項目です"), true);
+    assertEquals((await store.get()).allowedDirectories, ["/b"]);
+  } finally {
+    await Deno.remove(file);
+  }
+});
+
+Deno.test("ConfigStore - 監視中は設定ファイルの変更を読み込み直す", async () => {
+  const dir = await Deno.makeTempDir();
+  const file = `${dir}/config.toml`;
+  const store = new ConfigStore(file);
+  try {
+    await Deno.writeTextFile(file, 'allowedDirectories = ["/a"]\n');
+    assertEquals((await store.get()).allowedDirectories, ["/a"]);
+    store.watch();
+
+    await Deno.writeTextFile(file, 'allowedDirectories = ["/b"]\n');
+    for (let i = 0; i < 50 && (await store.get()).allowedDirectories[0] !== "/b"; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    assertEquals((await store.get()).allowedDirectories, ["/b"]);
+  } finally {
+    store.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("ConfigStore - ワークスペースのプロジェクトの設定でユーザーの設定を狭める", async () => {
+  const workspace = await Deno.realPath(await Deno.makeTempDir());
+  const file = await Deno.makeTempFile({ suffix: ".toml" });
+  try {
+    await Deno.writeTextFile(file, `allowedDirectories = [${JSON.stringify(workspace)}, "/tmp"]\n`);
+    await Deno.writeTextFile(`${workspace}/.mcp-cmdex.toml`, 'allowedDirectories = ["."]\ndeniedCommands = ["rm"]\n');
+    const config = await new ConfigStore(file, workspace).get();
+    assertEquals(config.allowedDirectories, [workspace]);
+    assertEquals(config.deniedCommands, ["rm"]);
+  } finally {
+    await Deno.remove(workspace, { recursive: true });
+    await Deno.remove(file);
+  }
+});
+
+Deno.test("ConfigStore - 不正なプロジェクトの設定だけを無視し、ユーザーの設定と前回のプロジェクトの設定を使い続ける", async () => {
+  const workspace = await Deno.realPath(await Deno.makeTempDir());
+  const file = await Deno.makeTempFile({ suffix: ".toml" });
+  const projectFile = `${workspace}/.mcp-cmdex.toml`;
+  try {
+    await Deno.writeTextFile(file, 'allowedDirectories = []\nprofile = "readonly"\ndeniedCommands = ["sh"]\n');
+    await Deno.writeTextFile(projectFile, 'deniedPatterns = "oops"\n');
+    const store = new ConfigStore(file, workspace);
+    assertEquals([(await store.get()).profile, (await store.get()).deniedCommands], ["readonly", ["sh"]]);
+
+    await Deno.writeTextFile(projectFile, 'deniedCommands = ["cat"]\n');
+    assertEquals((await store.reload()).deniedCommands, ["sh", "cat"]);
+    await Deno.writeTextFile(projectFile, 'deniedCommands = "cat"\n');
+    assertEquals((await store.reload()).deniedCommands, ["sh", "cat"]);
+  } finally {
+    await Deno.remove(workspace, { recursive: true });
+    await Deno.remove(file);
+  }
+});
@@ -1,45 +1,412 @@
 import * as path from "@std/path";
 import * as toml from "@std/toml";
+import { CONFIG_SCHEMA, PROJECT_CONFIG_SCHEMA, validateConfig } from "./config-schema.ts";
+import type { ConfigSchema } from "./config-schema.ts";
+import { narrowConfig, PROJECT_CONFIG_FILE_NAME } from "./project-config.ts";
+
+/**
+ * コマンド実行時の制限の型定義
+ */
+export type ExecutionLimits = {
+  timeoutMs?: number;
+  maxOutputBytes?: number;
+};
+
+/**
+ * 子プロセスに引き継ぐ環境変数の型定義
+ *
+ * パターンは `*` をワイルドカードとして大文字小文字を区別せずに照合する。
+ */
+export type EnvironmentPolicy = {
+  allow?: string[];
+  deny?: string[];
+};
+
+/**
+ * コマンドごとのルールの型定義
+ *
+ * サブコマンドは引数のうち最初の `-` で始まらないものを指す。
+ * 引数パターンは正規表現として評価される。
+ */
+export type CommandRule = ExecutionLimits & {
+  allowSubcommands?: string[];
+  denySubcommands?: string[];
+  allowArgs?: string[];
+  denyArgs?: string[];
+};
+
+/**
+ * 設定ファイルで定義するコマンドプロファイルの型定義
+ */
+export type CommandProfile = {
+  extends?: string;
+  commands?: string[];
+};
+
+/**
+ * 許可されたディレクトリごとのアクセスモード
+ *
+ * read-only は読み取りのみ、no-delete は削除以外、read-write はすべての操作を許可する。
+ */
+export type DirectoryMode = "read-only" | "read-write" | "no-delete";
 
 /**
  * 設定ファイルの型定義
  */
 export type Config = {
   allowedDirectories: string[];
+  // 許可されたディレクトリ内でもアクセスさせないパス (gitignore形式のパターン)
+  deniedPatterns?: string[];
+  // ディレクトリごとのアクセスモード (指定がない場合は read-write)
+  directoryModes?: {
+    [directory: string]: DirectoryMode;
+  };
+  // 組み込みコマンドのプロファイル (full, dev, readonly, none または profiles で定義した名前)
+  profile?: string;
+  profiles?: {
+    [name: string]: CommandProfile;
+  };
   allowedCommands?: {
     [category: string]: string[];
   };
+  // プロファイルやallowedCommandsに含まれていても許可しないコマンド
+  deniedCommands?: string[];
+  commandRules?: {
+    [command: string]: CommandRule;
+  };
+  execution?: ExecutionLimits & {
+    env?: EnvironmentPolicy;
+  };
+  // ファイル操作で上書き・削除した内容の退避 (undo_last_changeで取り消すために使う)
+  backup?: {
+    // falseの場合は退避せず、変更を取り消せない
+    enabled?: boolean;
+    // 退避先のディレクトリ (省略時はセッションごとの一時ディレクトリ)
+    directory?: string;
+    // 取り消せる変更の保持数
+    maxChanges?: number;
+  };
+  // ツールの呼び出しを記録する監査ログ
+  audit?: {
+    // falseの場合は記録しない
+    enabled?: boolean;
+    // 記録先のファイル (省略時は $XDG_STATE_HOME/mcp-cmdex/audit.jsonl)
+    file?: string;
+    // 値を記録しない引数名のパターン (* をワイルドカードとして大文字小文字を区別せずに照合する)
+    redact?: string[];
+    // ファイルがこのサイズを超えた場合にローテーションする
+    maxBytes?: number;
+    // ローテーションしたファイルの保持数
+    maxFiles?: number;
+  };
+  // 実行前にユーザーの承認が必要な操作
+  approval?: {
+    // ツール名 (「ツール名:引数名」は引数がtrueの場合だけ)
+    tools?: string[];
+    // コマンド (「git push」のようにサブコマンドまで指定できる)
+    commands?: string[];
+    // 承認を待つ時間
+    timeoutMs?: number;
+  };
   llm?: {
     enabled: boolean;
   };
 };
 
 /**
- * 設定ファイルのパスを取得する
+ * プロジェクトの設定ファイルの型定義
+ *
+ * ユーザーの設定ファイルの権限を狭める項目だけを指定できる。
  */
-export function getConfigFilePath(): string {
-  let configDir = Deno.env.get("HOME") || Deno.env.get("USERPROFILE") || "~";
+export type ProjectConfig = {
+  // プロジェクトのルートからの相対パスも指定できる。ユーザーの設定で許可されたディレクトリの中だけが有効になる
+  allowedDirectories?: string[];
+  deniedPatterns?: string[];
+  directoryModes?: {
+    [directory: string]: DirectoryMode;
+  };
+  // ユーザーの設定で許可されたコマンドのうち、このプロファイルに含まれるものだけを許可する
+  profile?: string;
+  deniedCommands?: string[];
+  execution?: ExecutionLimits;
+};
+
+/**
+ * コマンドライン引数から「--name value」または「--name=value」の値を取り出す
+ */
+function getFlagValue(args: string[], name: string): string | undefined {
+  for (const [index, arg] of args.entries()) {
+    if (arg === name) {
+      return args[index + 1];
+    }
+    if (arg.startsWith(`${name}=`)) {
+      return arg.slice(name.length + 1);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * ホームディレクトリのパスを取得する
+ */
+export function getHomeDirectory(): string {
+  const homeDir = Deno.env.get("HOME") || Deno.env.get("USERPROFILE") || "~";
   // backslash to forward slash for windows
-  configDir = configDir.replace(/\\/g, "/");
-  return path.join(configDir, ".mcp-cmdex.toml");
+  return homeDir.replace(/\\/g, "/");
 }
 
 /**
- * 設定ファイルを読み込む
+ * 設定ファイルのパスを取得する
+ *
+ * --config 引数、MCP_CMDEX_CONFIG 環境変数、XDGの設定ディレクトリ ($XDG_CONFIG_HOME/mcp-cmdex/config.toml)、
+ * ホームディレクトリの .mcp-cmdex.toml の順に探す。
  */
-export async function readConfig(): Promise<Config> {
-  const configFile = getConfigFilePath();
-  console.error("設定ファイル(loading):", configFile);
+export function getConfigFilePath(args: string[] = Deno.args): string {
+  const specified = getFlagValue(args, "--config") || Deno.env.get("MCP_CMDEX_CONFIG");
+  if (specified) {
+    return path.resolve(specified);
+  }
+
+  const homeDir = getHomeDirectory();
+  const xdgConfigFile = path.join(
+    Deno.env.get("XDG_CONFIG_HOME") || path.join(homeDir, ".config"),
+    "mcp-cmdex",
+    "config.toml",
+  );
   try {
-    const content = await Deno.readTextFile(configFile);
-    const config = toml.parse(content) as Config;
-    console.error("許可されたディレクトリ(loaded):", config.allowedDirectories);
-    return config;
+    if (Deno.statSync(xdgConfigFile).isFile) {
+      return xdgConfigFile;
+    }
+  } catch {
+    // XDGの設定ファイルがない場合はホームディレクトリの設定ファイルを使う
+  }
+  return path.join(homeDir, ".mcp-cmdex.toml");
+}
+
+/**
+ * プロジェクトの設定ファイルを探すワークスペースのルートを取得する
+ *
+ * --workspace 引数、MCP_CMDEX_WORKSPACE 環境変数、カレントディレクトリの順に使う。
+ */
+export function getWorkspaceRoot(args: string[] = Deno.args): string {
+  return path.resolve(getFlagValue(args, "--workspace") || Deno.env.get("MCP_CMDEX_WORKSPACE") || Deno.cwd());
+}
+
+// ファイルの変更を検知してから読み込み直すまでの待ち時間 (保存時に連続して発生するイベントをまとめる)
+const RELOAD_DELAY_MS = 200;
+
+/**
+ * 設定ファイルの内容を解析・検証する
+ */
+export function parseConfigFile<T = Config>(
+  configFile: string,
+  content: string,
+  schema: ConfigSchema = CONFIG_SCHEMA
+): T {
+  let parsed: unknown;
+  try {
+    parsed = toml.parse(content);
+  } catch (error) {
+    throw new Error(`設定ファイルを解析できません: ${configFile}\n${error instanceof Error ? error.message : String(error)}`);
+  }
+  return validateConfig<T>(parsed, content, configFile, schema);
+}
+
+/**
+ * 設定ファイルを読み込み、解析・検証する (ファイルが存在しない場合はデフォルト設定を返す)
+ */
+export async function loadConfigFile(configFile: string): Promise<Config> {
+  try {
+    return parseConfigFile<Config>(configFile, await Deno.readTextFile(configFile), CONFIG_SCHEMA);
   } catch (error) {
     if (error instanceof Deno.errors.NotFound) {
-      // 設定ファイルが存在しない場合はデフォルト設定を返す
       return { allowedDirectories: [] };
     }
     throw error;
   }
 }
+
+/**
+ * プロジェクトの設定ファイルを読み込み、解析・検証する (ファイルが存在しない場合はundefined)
+ */
+export async function loadProjectConfigFile(configFile: string): Promise<ProjectConfig | undefined> {
+  try {
+    return parseConfigFile<ProjectConfig>(configFile, await Deno.readTextFile(configFile), PROJECT_CONFIG_SCHEMA);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 解析・検証した設定を保持するクラス
+ *
+ * projectRoot を指定した場合は、そのディレクトリのプロジェクトの設定ファイルでユーザーの設定を狭める。
+ * watch() を呼ぶと設定ファイルの変更を監視して読み込み直す。
+ * 読み込み直しに失敗した場合は前回の設定を使い続ける。
+ */
+export class ConfigStore {
+  private current?: Config;
+  private loading?: Promise<Config>;
+  private watchers: Deno.FsWatcher[] = [];
+  private reloadTimer?: ReturnType<typeof setTimeout>;
+  // 現在の設定に反映したプロジェクトの設定ファイル
+  private loadedProjectConfigFile?: string;
+  // 最後に読み込めたプロジェクトの設定
+  private lastProjectConfig?: ProjectConfig;
+
+  constructor(
+    readonly configFile: string = getConfigFilePath(),
+    private readonly projectRoot?: string
+  ) {}
+
+  /**
+   * プロジェクトの設定ファイルのパス (ユーザーの設定ファイルと同じ場合はundefined)
+   */
+  private get projectConfigFile(): string | undefined {
+    if (this.projectRoot === undefined) {
+      return undefined;
+    }
+    const projectConfigFile = path.join(this.projectRoot, PROJECT_CONFIG_FILE_NAME);
+    return path.resolve(projectConfigFile) === path.resolve(this.configFile) ? undefined : projectConfigFile;
+  }
+
+  /**
+   * 現在の設定を返す (初回は設定ファイルを読み込む)
+   */
+  get(): Promise<Config> {
+    if (this.current !== undefined) {
+      return Promise.resolve(this.current);
+    }
+    this.loading ??= this.reload().finally(() => {
+      this.loading = undefined;
+    });
+    return this.loading;
+  }
+
+  /**
+   * 現在の設定の読み込み元のファイルを返す
+   */
+  getSources(): { configFile: string; projectConfigFile?: string } {
+    return { configFile: this.configFile, projectConfigFile: this.loadedProjectConfigFile };
+  }
+
+  /**
+   * 設定ファイルを読み込み直す
+   *
+   * 解析・検証がすべて成功した場合だけ設定を置き換える。
+   */
+  async reload(): Promise<Config> {
+    try {
+      const userConfig = await loadConfigFile(this.configFile);
+      const projectConfigFile = this.projectConfigFile;
+      const narrowed = projectConfigFile !== undefined ? await this.applyProjectLayer(userConfig, projectConfigFile) : undefined;
+      const config = narrowed ?? userConfig;
+      this.current = config;
+      this.loadedProjectConfigFile = narrowed !== undefined ? projectConfigFile : undefined;
+      console.error(
+        "設定ファイルを読み込みました:",
+        this.configFile,
+        ...(narrowed !== undefined ? [`(プロジェクト: ${projectConfigFile})`] : []),
+      );
+      return config;
+    } catch (error) {
+      if (this.current !== undefined) {
+        console.error("設定ファイルの読み込みに失敗したため、前回の設定を使い続けます:", error instanceof Error ? error.message : error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * プロジェクトの設定ファイルでユーザーの設定を狭める (プロジェクトの設定ファイルがない場合はundefined)
+   *
+   * プロジェクトの設定ファイルが不正な場合や適用できない場合はそのファイルだけを無視し、
+   * 前回適用できたプロジェクトの設定 (なければユーザーの設定のみ) を使う。
+   */
+  private async applyProjectLayer(config: Config, projectConfigFile: string): Promise<Config | undefined> {
+    try {
+      const projectConfig = await loadProjectConfigFile(projectConfigFile);
+      const narrowed = projectConfig !== undefined ? await narrowConfig(config, projectConfig, this.projectRoot!) : undefined;
+      this.lastProjectConfig = projectConfig;
+      return narrowed;
+    } catch (error) {
+      console.error(
+        "プロジェクトの設定ファイルを適用できないため無視します:",
+        error instanceof Error ? error.message : error,
+      );
+    }
+    if (this.lastProjectConfig !== undefined) {
+      try {
+        return await narrowConfig(config, this.lastProjectConfig, this.projectRoot!);
+      } catch (error) {
+        console.error("前回のプロジェクトの設定を適用できません:", error instanceof Error ? error.message : error);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 設定ファイルの変更の監視を始める
+   */
+  watch(): void {
+    if (this.watchers.length > 0) {
+      return;
+    }
+    const targets = [this.configFile, this.projectConfigFile]
+      .filter((file): file is string => file !== undefined)
+      .map((file) => path.resolve(file));
+    // エディタは別のファイルに書いてから置き換えることがあるため、ファイルではなくディレクトリを監視する
+    for (const dir of new Set(targets.map((target) => path.dirname(target)))) {
+      let watcher: Deno.FsWatcher;
+      try {
+        watcher = Deno.watchFs(dir, { recursive: false });
+      } catch (error) {
+        console.error("設定ファイルの監視を開始できません:", error);
+        continue;
+      }
+      this.watchers.push(watcher);
+      (async () => {
+        for await (const event of watcher) {
+          if (event.paths.some((changed) => targets.includes(path.resolve(changed)))) {
+            this.scheduleReload();
+          }
+        }
+      })().catch((error) => console.error("設定ファイルの監視に失敗:", error));
+    }
+  }
+
+  private scheduleReload(): void {
+    clearTimeout(this.reloadTimer);
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = undefined;
+      this.reload().catch(() => {});
+    }, RELOAD_DELAY_MS);
+  }
+
+  /**
+   * 設定ファイルの監視を終える
+   */
+  close(): void {
+    clearTimeout(this.reloadTimer);
+    this.reloadTimer = undefined;
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+  }
+}
+
+// サーバー全体で共有する設定
+export const configStore = new ConfigStore(getConfigFilePath(), getWorkspaceRoot());
+
+/**
+ * 設定ファイルを読み込む
+ *
+ * 解析・検証した結果はキャッシュし、設定ファイルの監視中は変更があった場合に読み込み直す。
+ */
+export function readConfig(): Promise<Config> {
+  return configStore.get();
+}
@@ -0,0 +1,83 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { formatDirectoryTree, listDirectoryTree } from "./directory-tree.ts";
+
+// テスト用のディレクトリ構成を作る
+async function createFixture(): Promise<string> {
+  const root = await Deno.makeTempDir();
+  await Deno.mkdir(`${root}/src/lib`, { recursive: true });
+  await Deno.mkdir(`${root}/dist`);
+  await Deno.writeTextFile(`${root}/.gitignore`, "dist/\n*.log\n");
+  await Deno.writeTextFile(`${root}/README.md`, "# readme");
+  await Deno.writeTextFile(`${root}/debug.log`, "log");
+  await Deno.writeTextFile(`${root}/dist/bundle.js`, "");
+  await Deno.writeTextFile(`${root}/src/main.ts`, "main");
+  await Deno.writeTextFile(`${root}/src/lib/util.ts`, "util");
+  await Deno.writeTextFile(`${root}/src/lib/data.json`, "{}");
+  return root;
+}
+
+Deno.test("listDirectoryTree - 指定した深さまで名前順に一覧にする", async () => {
+  const root = await createFixture();
+  try {
+    const tree = await listDirectoryTree(root, { maxDepth: 2 });
+    assertEquals(tree.entries.map((entry) => entry.path), [
+      ".gitignore",
+      "README.md",
+      "debug.log",
+      "dist",
+      "dist/bundle.js",
+      "src",
+      "src/lib",
+      "src/main.ts",
+    ]);
+    assertEquals(tree.entries.find((entry) => entry.path === "src/main.ts")?.size, 4);
+    assertEquals(tree.truncated, false);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("listDirectoryTree - .gitignore・グロブ・拒否パターンで絞り込む", async () => {
+  const root = await createFixture();
+  try {
+    const tree = await listDirectoryTree(root, {
+      maxDepth: 10,
+      include: ["*.ts"],
+      exclude: ["lib"],
+      respectGitignore: true,
+      isDenied: (target) => target.endsWith("README.md") ? "README.md" : undefined,
+    });
+    assertEquals(tree.entries.map((entry) => entry.path), ["src", "src/main.ts"]);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("listDirectoryTree - エントリ数の上限で打ち切り、その旨を表示する", async () => {
+  const root = await createFixture();
+  try {
+    const tree = await listDirectoryTree(root, { maxDepth: 10, maxEntries: 3 });
+    assertEquals(tree.entries.length, 3);
+    assertEquals(tree.truncated, true);
+    assertEquals(formatDirectoryTree(tree).endsWith("以降は省略しました"), true);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test({
+  name: "listDirectoryTree - シンボリックリンクはたどらずにリンク先を返す",
+  ignore: Deno.build.os === "windows",
+  fn: async () => {
+    const root = await createFixture();
+    try {
+      await Deno.symlink("src", `${root}/link`);
+      const tree = await listDirectoryTree(root, { maxDepth: 10 });
+      const link = tree.entries.filter((entry) => entry.path.startsWith("link"));
+      assertEquals(link.map((entry) => [entry.type, entry.target]), [["symlink", "src"]]);
+      assertEquals(formatDirectoryTree(tree).includes("[LINK] link -> src"), true);
+    } finally {
+      await Deno.remove(root, { recursive: true });
+    }
+  },
+});
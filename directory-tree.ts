@@ -0,0 +1,222 @@
+import * as path from "@std/path";
+import { compilePathPatterns, matchPathPatterns } from "./path-patterns.ts";
+
+// ツリー表示で返すエントリ数のデフォルトの上限
+export const DEFAULT_MAX_TREE_ENTRIES = 1000;
+
+/**
+ * ディレクトリ走査のオプションを表すインターフェース
+ */
+export interface WalkOptions {
+  // 走査する深さ (1 は直下のみ)
+  maxDepth: number;
+  // 一致するファイルだけを返すグロブ (gitignore形式)
+  include?: string[];
+  // 一致するファイル・ディレクトリを除外するグロブ (gitignore形式)
+  exclude?: string[];
+  // 各ディレクトリの .gitignore に一致するエントリを除外する
+  respectGitignore?: boolean;
+  // 拒否パターンに一致するパスを判定する関数
+  isDenied?: (absolutePath: string) => string | undefined;
+}
+
+/**
+ * 走査で見つかったエントリ
+ */
+export interface WalkEntry {
+  path: string;
+  // 走査を開始したディレクトリからの相対パス (区切りは「/」)
+  relativePath: string;
+  name: string;
+  depth: number;
+  isFile: boolean;
+  isDirectory: boolean;
+  isSymlink: boolean;
+}
+
+/**
+ * ツリー表示の各エントリの情報
+ */
+export interface TreeEntry {
+  path: string;
+  name: string;
+  type: "file" | "directory" | "symlink";
+  depth: number;
+  size: number;
+  mtime: string | null;
+  permissions: string | null;
+  target?: string;
+}
+
+/**
+ * ツリー表示の結果
+ */
+export interface DirectoryTree {
+  root: string;
+  entries: TreeEntry[];
+  // エントリ数の上限に達したため打ち切った場合はtrue
+  truncated: boolean;
+}
+
+/**
+ * .gitignore の適用範囲
+ */
+interface IgnoreScope {
+  // .gitignore があるディレクトリの相対パス
+  base: string;
+  patterns: ReturnType<typeof compilePathPatterns>;
+}
+
+/**
+ * ディレクトリの .gitignore を読み込む (存在しない場合はundefined)
+ */
+async function readGitignore(dir: string, base: string): Promise<IgnoreScope | undefined> {
+  try {
+    const content = await Deno.readTextFile(path.join(dir, ".gitignore"));
+    return { base, patterns: compilePathPatterns(content.split(/\r?\n/).map((line) => line.trimEnd())) };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * ディレクトリを名前順に深さ優先で走査する
+ *
+ * シンボリックリンクはたどらない。拒否パターンや除外パターンに一致したディレクトリの配下は走査しない。
+ */
+export async function* walkDirectory(root: string, options: WalkOptions): AsyncGenerator<WalkEntry> {
+  const include = compilePathPatterns(options.include ?? []);
+  const exclude = compilePathPatterns(options.exclude ?? []);
+
+  async function* visit(dir: string, relativeDir: string, depth: number, scopes: IgnoreScope[]): AsyncGenerator<WalkEntry> {
+    const entries: Deno.DirEntry[] = [];
+    try {
+      for await (const entry of Deno.readDir(dir)) {
+        entries.push(entry);
+      }
+    } catch (error) {
+      // 配下のディレクトリが読めない場合はそのディレクトリだけを飛ばす
+      if (depth === 1 || !(error instanceof Deno.errors.PermissionDenied)) {
+        throw error;
+      }
+      return;
+    }
+    entries.sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+
+    if (options.respectGitignore) {
+      const scope = await readGitignore(dir, relativeDir);
+      if (scope) {
+        scopes = [...scopes, scope];
+      }
+    }
+
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      const relativePath = relativeDir.length > 0 ? `${relativeDir}/${entry.name}` : entry.name;
+
+      if (options.isDenied?.(entryPath) !== undefined) {
+        continue;
+      }
+      if (options.respectGitignore) {
+        const ignored = entry.name === ".git" || scopes.some((scope) =>
+          matchPathPatterns(
+            scope.base.length > 0 ? relativePath.slice(scope.base.length + 1) : relativePath,
+            scope.patterns,
+          ) !== undefined
+        );
+        if (ignored) {
+          continue;
+        }
+      }
+      if (matchPathPatterns(relativePath, exclude) !== undefined) {
+        continue;
+      }
+
+      const walkEntry: WalkEntry = {
+        path: entryPath,
+        relativePath,
+        name: entry.name,
+        depth,
+        isFile: entry.isFile,
+        isDirectory: entry.isDirectory,
+        isSymlink: entry.isSymlink,
+      };
+      if (entry.isDirectory) {
+        yield walkEntry;
+        if (depth < options.maxDepth) {
+          yield* visit(entryPath, relativePath, depth + 1, scopes);
+        }
+      } else if (include.length === 0 || matchPathPatterns(relativePath, include) !== undefined) {
+        yield walkEntry;
+      }
+    }
+  }
+
+  yield* visit(root, "", 1, []);
+}
+
+/**
+ * パーミッションを「rwxr-xr-x」の形式に変換する
+ */
+function formatPermissions(mode: number | null): string | null {
+  if (mode === null) {
+    return null;
+  }
+  return [6, 3, 0].map((shift) => {
+    const bits = (mode >> shift) & 0o7;
+    return `${bits & 4 ? "r" : "-"}${bits & 2 ? "w" : "-"}${bits & 1 ? "x" : "-"}`;
+  }).join("");
+}
+
+/**
+ * ディレクトリをツリーとして一覧にする
+ */
+export async function listDirectoryTree(
+  root: string,
+  options: WalkOptions & { maxEntries?: number }
+): Promise<DirectoryTree> {
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_TREE_ENTRIES;
+  const entries: TreeEntry[] = [];
+  let truncated = false;
+
+  for await (const entry of walkDirectory(root, options)) {
+    if (entries.length >= maxEntries) {
+      truncated = true;
+      break;
+    }
+    const stat = await Deno.lstat(entry.path);
+    entries.push({
+      path: entry.relativePath,
+      name: entry.name,
+      type: entry.isSymlink ? "symlink" : entry.isDirectory ? "directory" : "file",
+      depth: entry.depth,
+      size: stat.size,
+      mtime: stat.mtime?.toISOString() ?? null,
+      permissions: formatPermissions(stat.mode),
+      ...(entry.isSymlink ? { target: await Deno.readLink(entry.path) } : {}),
+    });
+  }
+
+  return { root, entries, truncated };
+}
+
+/**
+ * ツリーをインデント付きのテキストに整形する
+ */
+export function formatDirectoryTree(tree: DirectoryTree): string {
+  const lines = tree.entries.map((entry) => {
+    const indent = "  ".repeat(entry.depth - 1);
+    const label = entry.type === "directory" ? "DIR" : entry.type === "symlink" ? "LINK" : "FILE";
+    const details = [
+      ...(entry.type === "file" ? [`${entry.size}B`] : []),
+      ...(entry.permissions !== null ? [entry.permissions] : []),
+      ...(entry.mtime !== null ? [entry.mtime] : []),
+    ].join(" ");
+    const target = entry.target !== undefined ? ` -> ${entry.target}` : "";
+    return `${indent}[${label}] ${entry.name}${target}  (${details})`;
+  });
+  if (tree.truncated) {
+    lines.push(`※ エントリ数が上限(${tree.entries.length}件)に達したため、以降は省略しました`);
+  }
+  return lines.join("\n");
+}
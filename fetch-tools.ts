@@ -0,0 +1,97 @@
+import { ErrorCode, McpError } from "npm:@modelcontextprotocol/sdk/types.js";
+import TurndownService from "npm:turndown";
+import { createLLMProcessor } from "./llm/processor-factory.ts";
+import { readConfig } from "./config.ts";
+import type { ToolDefinition } from "./tool-registry.ts";
+
+// URLからのコンテンツ取得ツール
+export const fetchTools: ToolDefinition[] = [
+  {
+    name: "fetch",
+    description: "指定されたURLからコンテンツを取得します",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: {
+          type: "string",
+          description: "取得するコンテンツのURL",
+        },
+      },
+      required: ["url"],
+    },
+    async handler(params) {
+      const { url } = params as { url: string };
+      try {
+        const response = await fetch(url);
+        if (!response.ok) {
+          throw new McpError(
+            ErrorCode.InternalError,
+            `取得に失敗しました: ${response.status} ${response.statusText}`,
+          );
+        }
+        const html = await response.text();
+        // HTMLをMarkdownに変換
+        const tds = new TurndownService({
+          keepReplacement: (content: string, node: TurndownService.Node) => node.nodeName === 'IMG' ? content : '', // 画像以外の属性を除去
+          blankReplacement: (content: string, node: TurndownService.Node) => {
+            return node.isBlock ? '\n\n' : ''
+          }
+        });
+        tds.addRule('removeStyles', {
+          filter: ['style', 'link'],
+          replacement: () => ''
+        });
+
+        tds.addRule('cleanAttributes', {
+          filter: ['span', 'div'],
+          replacement: (content: string) => content
+        });
+        tds.addRule('removeInlineStyles', {
+          filter: (node: TurndownService.Node) => {
+            return node.nodeType === 1 && node.hasAttribute('style');
+          },
+          replacement: (content: string, node: TurndownService.Node) => {
+            node.removeAttribute('style');
+            return content;
+          }
+        });
+
+        const markdown = tds.turndown(html);
+
+        // LLM処理の設定を読み込む
+        const config = await readConfig();
+        if (config.llm?.enabled) {
+          const processor = createLLMProcessor(config.llm);
+
+          const result = await processor.process(markdown, config.llm);
+          return {
+            content: [
+              {
+                type: "text",
+                text: result.processed,
+              },
+            ],
+          };
+        }
+
+        // LLMが無効な場合は元のMarkdownを返す
+        return {
+          content: [
+            {
+              type: "text",
+              text: markdown,
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        throw new McpError(
+          ErrorCode.InternalError,
+          `取得エラー: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    },
+  },
+];
@@ -0,0 +1,64 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { applyEdits } from "./file-edit.ts";
+import { createUnifiedDiff } from "./unified-diff.ts";
+
+// 編集に失敗した場合のエラーメッセージを返す
+function editError(content: string, edits: Parameters<typeof applyEdits>[1]): string | undefined {
+  try {
+    applyEdits(content, edits);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+Deno.test("applyEdits - 文字列と行範囲の置き換えを編集前の位置を基準にまとめて適用する", () => {
+  const content = "line1\nline2\nline3\nline4\n";
+  assertEquals(
+    applyEdits(content, [
+      { oldText: "line4", newText: "LINE4" },
+      { startLine: 1, endLine: 2, newText: "first" },
+    ]),
+    "first\nline3\nLINE4\n",
+  );
+  assertEquals(applyEdits(content, [{ startLine: 4, endLine: 4, newText: "last" }]), "line1\nline2\nline3\nlast\n");
+  assertEquals(applyEdits("a\r\nb\r\n", [{ oldText: "a\nb", newText: "x\ny" }]), "x\r\ny\r\n");
+});
+
+Deno.test("applyEdits - 一致しない・複数一致する・範囲が重なる編集はエラーにする", () => {
+  const content = "foo\nbar\nfoo\n";
+  assertEquals(editError(content, [{ oldText: "baz", newText: "" }])?.includes("見つかりません"), true);
+  assertEquals(editError(content, [{ oldText: "foo", newText: "" }])?.includes("2箇所に一致します"), true);
+  assertEquals(editError(content, [{ startLine: 2, endLine: 5, newText: "" }])?.includes("ファイルは3行です"), true);
+  assertEquals(
+    editError(content, [{ oldText: "foo\nbar", newText: "" }, { startLine: 2, endLine: 2, newText: "" }])
+      ?.includes("範囲が重なっています"),
+    true,
+  );
+});
+
+Deno.test("createUnifiedDiff - 変更箇所を前後の行とともにunified diff形式で返す", () => {
+  const oldText = ["a", "b", "c", "d", "e", "f", "g", "h", "i", "j"].join("\n") + "\n";
+  const newText = ["a", "B", "c", "d", "e", "f", "g", "h", "i", "j", "k"].join("\n") + "\n";
+  assertEquals(
+    createUnifiedDiff(oldText, newText, "file.txt"),
+    [
+      "--- a/file.txt",
+      "+++ b/file.txt",
+      "@@ -1,5 +1,5 @@",
+      " a",
+      "-b",
+      "+B",
+      " c",
+      " d",
+      " e",
+      "@@ -8,3 +8,4 @@",
+      " h",
+      " i",
+      " j",
+      "+k",
+      "",
+    ].join("\n"),
+  );
+  assertEquals(createUnifiedDiff(oldText, oldText, "file.txt"), "");
+});
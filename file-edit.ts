@@ -0,0 +1,119 @@
+import { ErrorCode, McpError } from "npm:@modelcontextprotocol/sdk/types.js";
+
+/**
+ * 完全に一致するテキストを置き換える編集
+ */
+export interface TextEdit {
+  oldText: string;
+  newText: string;
+}
+
+/**
+ * 行範囲を置き換える編集 (行番号は1から始まり、endLineを含む)
+ */
+export interface LineRangeEdit {
+  startLine: number;
+  endLine: number;
+  newText: string;
+}
+
+export type FileEdit = TextEdit | LineRangeEdit;
+
+/**
+ * 元のテキスト上の置き換え範囲
+ */
+interface EditSpan {
+  index: number;
+  start: number;
+  end: number;
+  newText: string;
+}
+
+/**
+ * 編集を元のテキスト上の範囲に変換する
+ */
+function resolveSpan(content: string, edit: FileEdit, index: number, lineOffsets: number[]): EditSpan {
+  const label = `編集 #${index + 1}`;
+  // ファイルの改行がCRLFの場合は編集のテキストもCRLFにそろえる
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const newText = eol === "\r\n" ? edit.newText.replace(/\r?\n/g, "\r\n") : edit.newText;
+
+  if ("oldText" in edit) {
+    const oldText = eol === "\r\n" ? edit.oldText.replace(/\r?\n/g, "\r\n") : edit.oldText;
+    if (oldText.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, `${label}: 置き換える文字列が空です`);
+    }
+    const start = content.indexOf(oldText);
+    if (start === -1) {
+      throw new McpError(ErrorCode.InvalidParams, `${label}: 置き換える文字列が見つかりません`);
+    }
+    let count = 0;
+    for (let found = start; found !== -1; found = content.indexOf(oldText, found + 1)) {
+      count++;
+    }
+    if (count > 1) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `${label}: 置き換える文字列が${count}箇所に一致します。前後の行を含めて一意になるように指定してください`
+      );
+    }
+    return { index, start, end: start + oldText.length, newText };
+  }
+
+  const { startLine, endLine } = edit;
+  const lineCount = lineOffsets.length;
+  if (!Number.isInteger(startLine) || !Number.isInteger(endLine) || startLine < 1 || endLine < startLine || endLine > lineCount) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${label}: 行範囲 ${startLine}-${endLine} が不正です (ファイルは${lineCount}行です)`
+    );
+  }
+  // 置き換える範囲は最終行の改行の直前まで
+  let end = endLine < lineCount ? lineOffsets[endLine] : content.length;
+  const replaced = content.slice(0, end);
+  if (replaced.endsWith("\r\n")) {
+    end -= 2;
+  } else if (replaced.endsWith("\n")) {
+    end -= 1;
+  }
+  return { index, start: lineOffsets[startLine - 1], end, newText };
+}
+
+/**
+ * テキストに編集をまとめて適用する
+ *
+ * 各編集の位置は編集前のテキストを基準にする。
+ * いずれかの編集が適用できない場合や範囲が重なる場合は、何も変更せずにエラーを投げる。
+ */
+export function applyEdits(content: string, edits: FileEdit[]): string {
+  if (edits.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, "編集が指定されていません");
+  }
+
+  const lineOffsets = [0];
+  for (let i = content.indexOf("\n"); i !== -1; i = content.indexOf("\n", i + 1)) {
+    lineOffsets.push(i + 1);
+  }
+  // 末尾の改行の後は行として数えない
+  if (content.endsWith("\n")) {
+    lineOffsets.pop();
+  }
+
+  const spans = edits
+    .map((edit, index) => resolveSpan(content, edit, index, lineOffsets))
+    .sort((a, b) => a.start - b.start);
+  for (let i = 1; i < spans.length; i++) {
+    if (spans[i].start < spans[i - 1].end) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `編集 #${spans[i - 1].index + 1} と 編集 #${spans[i].index + 1} の範囲が重なっています`
+      );
+    }
+  }
+
+  let result = content;
+  for (const span of [...spans].reverse()) {
+    result = result.slice(0, span.start) + span.newText + result.slice(span.end);
+  }
+  return result;
+}
@@ -1,56 +1,779 @@
-// ファイル操作APIの定義
+// ファイル操作APIの定義と実装
+import { ErrorCode, McpError } from "npm:@modelcontextprotocol/sdk/types.js";
+import { readConfig } from "./config.ts";
+import { createDeniedPathMatcher, validateDescendantModes, validatePath } from "./path-validator.ts";
+import { DEFAULT_MAX_TREE_ENTRIES, formatDirectoryTree, listDirectoryTree } from "./directory-tree.ts";
+import {
+  DEFAULT_MAX_READ_BYTES,
+  DEFAULT_MAX_TOTAL_READ_BYTES,
+  readFileContent,
+  readMultipleFiles,
+} from "./file-reader.ts";
+import type { FileReadRequest, ReadFileOptions, ReadFileResult } from "./file-reader.ts";
+import { applyEdits } from "./file-edit.ts";
+import type { FileEdit } from "./file-edit.ts";
+import { createUnifiedDiff } from "./unified-diff.ts";
+import { DEFAULT_MAX_SEARCH_RESULTS, formatSearchResult, searchFiles } from "./file-search.ts";
+import { formatTransferSummary } from "./file-transfer.ts";
+import type { ConflictPolicy } from "./file-transfer.ts";
+import { textResult } from "./tool-registry.ts";
+import type { ToolDefinition, ToolResult } from "./tool-registry.ts";
+
+// ファイルの読み取り結果をツール結果に変換する
+function readResultToToolResult(filePath: string, result: ReadFileResult): ToolResult {
+  if (result.kind === "binary") {
+    if (result.base64 === undefined) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `バイナリファイルのため読み取りませんでした: ${filePath} (${result.size}バイト)。内容が必要な場合はbinaryに"base64"を指定してください`,
+          },
+        ],
+        structuredContent: result,
+        isError: true,
+      };
+    }
+    return {
+      content: [
+        {
+          type: "text",
+          text: result.base64,
+        },
+        {
+          type: "text",
+          text: `[Base64: ${result.size}バイト${result.truncated ? "、上限を超えたため先頭のみ" : ""}]`,
+        },
+      ],
+      structuredContent: result,
+    };
+  }
 
-// APIの型定義
-type FileOperationAPIDefinition = {
-  name: string;
-  description: string;
-  inputSchema: {
-    type: string;
-    properties: Record<string, {
-      type: string;
-      description: string;
-    }>;
-    required: string[];
+  const summary = result.totalLines === 0
+    ? "[空のファイル]"
+    : `[全${result.totalLines}行中 ${result.startLine}-${result.endLine}行目${result.truncated ? "、上限を超えたため以降は省略" : ""}]`;
+  return {
+    content: [
+      {
+        type: "text",
+        text: result.text,
+      },
+      {
+        type: "text",
+        text: summary,
+      },
+    ],
+    structuredContent: result,
   };
-};
+}
 
 // ファイル操作APIの定義
-export const fileOperationsAPIDefinitions: FileOperationAPIDefinition[] = [
+export const fileOperationTools: ToolDefinition[] = [
   {
-    name: "copy_file",
-    description: "ファイルをコピーします",
+    name: "read_file",
+    description: "ファイルの内容を読み取ります。全体の行数と読み取った行の範囲も返します",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "読み取るファイルのパス",
+        },
+        range: {
+          type: "string",
+          description: "読み取る行の範囲（n:m/n:/:m/n）。行番号は1から始まり、終了行を含みます。負の値は末尾から数えます（例: -20: は最後の20行）",
+        },
+        tail: {
+          type: "number",
+          description: "末尾から読み取る行数（rangeとは同時に指定できません）",
+        },
+        lineNumbers: {
+          type: "boolean",
+          description: "trueの場合は各行の先頭に行番号を付けます",
+          default: false,
+        },
+        encoding: {
+          type: "string",
+          description: "ファイルの文字コード（utf-8, shift_jis, euc-jp など）",
+          default: "utf-8",
+        },
+        maxBytes: {
+          type: "number",
+          description: `返す内容のバイト数の上限（デフォルト: ${DEFAULT_MAX_READ_BYTES}）`,
+        },
+        binary: {
+          type: "string",
+          enum: ["refuse", "base64"],
+          description: "バイナリファイルの扱い（refuse: 読み取らない / base64: Base64で返す）",
+          default: "refuse",
+        },
+      },
+      required: ["path"],
+    },
+    async handler(params) {
+      const { path: filePath, ...options } = params as unknown as {
+        path: string;
+      } & ReadFileOptions;
+      const validPath = await validatePath(filePath);
+      const result = await readFileContent(validPath, options);
+      return readResultToToolResult(filePath, result);
+    },
+  },
+  {
+    name: "read_multiple_files",
+    description: "複数のファイルの内容をまとめて読み取ります。読み取れないファイルがあっても他のファイルの内容は返します",
+    inputSchema: {
+      type: "object",
+      properties: {
+        files: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              path: {
+                type: "string",
+                description: "読み取るファイルのパス",
+              },
+              range: {
+                type: "string",
+                description: "読み取る行の範囲（read_fileと同じ形式）",
+              },
+            },
+            required: ["path"],
+          },
+          description: "読み取るファイルの一覧",
+        },
+        lineNumbers: {
+          type: "boolean",
+          description: "trueの場合は各行の先頭に行番号を付けます",
+          default: false,
+        },
+        encoding: {
+          type: "string",
+          description: "ファイルの文字コード（utf-8, shift_jis, euc-jp など）",
+          default: "utf-8",
+        },
+        maxTotalBytes: {
+          type: "number",
+          description: `返す内容の合計バイト数の上限（デフォルト: ${DEFAULT_MAX_TOTAL_READ_BYTES}）`,
+        },
+      },
+      required: ["files"],
+    },
+    async handler(params) {
+      const { files, lineNumbers, encoding, maxTotalBytes } = params as {
+        files: FileReadRequest[];
+        lineNumbers?: boolean;
+        encoding?: string;
+        maxTotalBytes?: number;
+      };
+      if (!Array.isArray(files) || files.length === 0) {
+        throw new McpError(ErrorCode.InvalidParams, "読み取るファイルが指定されていません");
+      }
+      const result = await readMultipleFiles(
+        files,
+        { lineNumbers, encoding, maxTotalBytes },
+        (requestedPath) => validatePath(requestedPath),
+      );
+
+      const sections = result.files.map((file) => {
+        if (!file.ok) {
+          return `=== ${file.path} ===\nエラー: ${file.error}`;
+        }
+        const [content, summary] = readResultToToolResult(file.path, file).content;
+        return `=== ${file.path} ===\n${content.text}${summary ? `\n${summary.text}` : ""}`;
+      });
+      if (result.budgetExceeded) {
+        sections.push("※ 合計サイズの上限に達したため、一部のファイルは省略または切り詰めました");
+      }
+      return {
+        content: [
+          {
+            type: "text",
+            text: sections.join("\n\n"),
+          },
+        ],
+        structuredContent: result,
+      };
+    },
+  },
+  {
+    name: "write_file",
+    description: "ファイルに内容を書き込みます",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "書き込み先のファイルパス",
+        },
+        content: {
+          type: "string",
+          description: "書き込む内容",
+        },
+      },
+      required: ["path", "content"],
+    },
+    async handler(params, context) {
+      const { path: filePath, content } = params as {
+        path: string;
+        content: string;
+      };
+      const validPath = await validatePath(filePath, readConfig, "write");
+      await context.changes.writeFile("write_file", validPath, content);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `ファイルの書き込みに成功しました: ${filePath}`,
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "append_file",
+    description: "ファイルに内容を追加します",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "追加先のファイルパス",
+        },
+        content: {
+          type: "string",
+          description: "追加する内容",
+        },
+      },
+      required: ["path", "content"],
+    },
+    async handler(params, context) {
+      const { path: filePath, content } = params as {
+        path: string;
+        content: string;
+      };
+      const validPath = await validatePath(filePath, readConfig, "write");
+      await context.changes.writeFile("append_file", validPath, content, { append: true });
+      return {
+        content: [
+          {
+            type: "text",
+            text: `ファイルの追加に成功しました: ${filePath}`,
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "edit_file",
+    description: "ファイルの一部を置き換えます。すべての編集を適用できる場合のみ書き込み、結果をunified diff形式で返します",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "編集するファイルのパス",
+        },
+        edits: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              oldText: {
+                type: "string",
+                description: "置き換える文字列（ファイル内で一意に一致する必要があります）",
+              },
+              startLine: {
+                type: "number",
+                description: "置き換える最初の行（1から始まる行番号。oldTextの代わりに指定）",
+              },
+              endLine: {
+                type: "number",
+                description: "置き換える最後の行（この行を含む）",
+              },
+              newText: {
+                type: "string",
+                description: "置き換え後の文字列",
+              },
+            },
+            required: ["newText"],
+          },
+          description: "編集の一覧（位置はすべて編集前のファイルを基準にします）",
+        },
+        dryRun: {
+          type: "boolean",
+          description: "trueの場合は書き込まずに差分だけを返します",
+          default: false,
+        },
+      },
+      required: ["path", "edits"],
+    },
+    async handler(params, context) {
+      const { path: filePath, edits, dryRun = false } = params as {
+        path: string;
+        edits: FileEdit[];
+        dryRun?: boolean;
+      };
+      if (!Array.isArray(edits)) {
+        throw new McpError(ErrorCode.InvalidParams, "editsは配列で指定してください");
+      }
+      const validPath = await validatePath(filePath, readConfig, dryRun ? "read" : "write");
+      const original = await Deno.readTextFile(validPath);
+      const updated = applyEdits(original, edits);
+      const diff = createUnifiedDiff(original, updated, filePath);
+      if (!dryRun) {
+        await context.changes.writeFile("edit_file", validPath, updated);
+      }
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${dryRun ? "編集内容の確認（書き込みは行っていません）" : `ファイルを編集しました: ${filePath}`}\n${diff || "変更はありません"}`,
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "list_directory",
+    description: "ディレクトリの内容をサイズ・更新日時・パーミッション・シンボリックリンクの対象とともにツリー形式で一覧表示します",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "一覧表示するディレクトリのパス",
+        },
+        depth: {
+          type: "number",
+          description: "表示する階層の深さ（1は直下のみ）",
+          default: 1,
+        },
+        include: {
+          type: "array",
+          items: {
+            type: "string"
+          },
+          description: "表示するファイルのグロブ（例: [\"*.ts\", \"src/**/*.json\"]）",
+        },
+        exclude: {
+          type: "array",
+          items: {
+            type: "string"
+          },
+          description: "除外するファイル・ディレクトリのグロブ（例: [\"dist\", \"*.log\"]）",
+        },
+        respectGitignore: {
+          type: "boolean",
+          description: "trueの場合は.gitignoreに一致するエントリを除外します",
+          default: false,
+        },
+        maxEntries: {
+          type: "number",
+          description: `返すエントリ数の上限（デフォルト: ${DEFAULT_MAX_TREE_ENTRIES}）`,
+        },
+      },
+      required: ["path"],
+    },
+    async handler(params) {
+      const {
+        path: dirPath,
+        depth = 1,
+        include,
+        exclude,
+        respectGitignore = false,
+        maxEntries = DEFAULT_MAX_TREE_ENTRIES,
+      } = params as {
+        path: string;
+        depth?: number;
+        include?: string[];
+        exclude?: string[];
+        respectGitignore?: boolean;
+        maxEntries?: number;
+      };
+      const validPath = await validatePath(dirPath);
+      // 拒否パターンに一致するエントリは名前も返さない
+      const isDenied = await createDeniedPathMatcher(await readConfig());
+      const tree = await listDirectoryTree(validPath, {
+        maxDepth: depth,
+        include,
+        exclude,
+        respectGitignore,
+        isDenied,
+        maxEntries,
+      });
+      return {
+        content: [
+          {
+            type: "text",
+            text: formatDirectoryTree(tree),
+          },
+        ],
+        structuredContent: tree,
+      };
+    },
+  },
+  {
+    name: "search_files",
+    description: "許可されたディレクトリ内のファイルの内容を検索し、「ファイル:行:内容」の形式で返します。バイナリファイルと拒否パターンに一致するファイルは検索しません",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "検索する文字列（regexがtrueの場合は正規表現）",
+        },
+        path: {
+          type: "string",
+          description: "検索するディレクトリまたはファイルのパス（省略時は許可されたすべてのディレクトリ）",
+        },
+        regex: {
+          type: "boolean",
+          description: "trueの場合はqueryを正規表現として扱います",
+          default: false,
+        },
+        caseSensitive: {
+          type: "boolean",
+          description: "大文字と小文字を区別するかどうか",
+          default: true,
+        },
+        include: {
+          type: "array",
+          items: {
+            type: "string"
+          },
+          description: "検索するファイルのグロブ（例: [\"*.ts\"]）",
+        },
+        exclude: {
+          type: "array",
+          items: {
+            type: "string"
+          },
+          description: "除外するファイル・ディレクトリのグロブ（例: [\"dist\"]）",
+        },
+        contextLines: {
+          type: "number",
+          description: "一致した行の前後に表示する行数",
+          default: 0,
+        },
+        maxResults: {
+          type: "number",
+          description: `返す結果の上限（デフォルト: ${DEFAULT_MAX_SEARCH_RESULTS}）`,
+        },
+        respectGitignore: {
+          type: "boolean",
+          description: "trueの場合は.gitignoreに一致するファイルを検索しません",
+          default: true,
+        },
+      },
+      required: ["query"],
+    },
+    async handler(params) {
+      const {
+        query,
+        path: searchPath,
+        regex = false,
+        caseSensitive = true,
+        include,
+        exclude,
+        contextLines = 0,
+        maxResults = DEFAULT_MAX_SEARCH_RESULTS,
+        respectGitignore = true,
+      } = params as {
+        query: string;
+        path?: string;
+        regex?: boolean;
+        caseSensitive?: boolean;
+        include?: string[];
+        exclude?: string[];
+        contextLines?: number;
+        maxResults?: number;
+        respectGitignore?: boolean;
+      };
+      if (typeof query !== "string" || query.length === 0) {
+        throw new McpError(ErrorCode.InvalidParams, "検索する文字列が指定されていません");
+      }
+
+      const config = await readConfig();
+      // パスを省略した場合は存在する許可されたディレクトリをすべて検索する
+      const roots: string[] = [];
+      if (searchPath !== undefined) {
+        roots.push(await validatePath(searchPath));
+      } else {
+        for (const dir of config.allowedDirectories) {
+          try {
+            const validDir = await validatePath(dir);
+            if ((await Deno.stat(validDir)).isDirectory) {
+              roots.push(validDir);
+            }
+          } catch (error) {
+            console.error(`検索対象から除外しました: ${dir}`, error);
+          }
+        }
+      }
+
+      const result = await searchFiles(roots, {
+        query,
+        regex,
+        caseSensitive,
+        include,
+        exclude,
+        contextLines,
+        maxResults,
+        respectGitignore,
+        isDenied: await createDeniedPathMatcher(config),
+      });
+      return {
+        content: [
+          {
+            type: "text",
+            text: formatSearchResult(result),
+          },
+        ],
+        structuredContent: result,
+      };
+    },
+  },
+  {
+    name: "create_directory",
+    description: "新しいディレクトリを作成します",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "作成するディレクトリのパス",
+        },
+        recursive: {
+          type: "boolean",
+          description: "親ディレクトリも必要に応じて作成するかどうか",
+          default: false
+        }
+      },
+      required: ["path"],
+    },
+    async handler(params, context) {
+      const { path: dirPath, recursive = false } = params as {
+        path: string;
+        recursive?: boolean;
+      };
+      const validPath = await validatePath(dirPath, readConfig, "write");
+      try {
+        await context.changes.createDirectory("create_directory", validPath, { recursive });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `ディレクトリ '${dirPath}' を作成しました`,
+            },
+          ],
+        };
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          `ディレクトリ作成エラー: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    },
+  },
+  {
+    name: "remove_directory",
+    description: "ディレクトリを削除します",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "削除するディレクトリのパス",
+        },
+        recursive: {
+          type: "boolean",
+          description: "ディレクトリが空でない場合も再帰的に削除するかどうか",
+          default: false
+        }
+      },
+      required: ["path"],
+    },
+    async handler(params, context) {
+      const { path: dirPath, recursive = false } = params as {
+        path: string;
+        recursive?: boolean;
+      };
+      const validPath = await validatePath(dirPath, readConfig, "delete");
+      await validateDescendantModes(validPath, "delete");
+      try {
+        await context.changes.remove("remove_directory", validPath, { recursive });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `ディレクトリ '${dirPath}' を削除しました`,
+            },
+          ],
+        };
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          `ディレクトリ削除エラー: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    },
+  },
+  {
+    name: "rename_directory",
+    description: "ディレクトリの名前を変更または移動します。移動先のディレクトリが既に存在する場合は中身をまとめます",
     inputSchema: {
       type: "object",
       properties: {
         sourcePath: {
           type: "string",
-          description: "コピー元のファイルパス",
+          description: "名前変更または移動元のディレクトリパス",
         },
         destinationPath: {
           type: "string",
-          description: "コピー先のファイルパス",
+          description: "名前変更または移動先のディレクトリパス",
+        },
+        conflict: {
+          type: "string",
+          enum: ["overwrite", "skip", "fail"],
+          description: "コピー・移動先に同じ名前のファイルがある場合の扱い（overwrite: 上書き / skip: スキップ / fail: 何もせずにエラー）",
+          default: "fail",
+        },
+      },
+      required: ["sourcePath", "destinationPath"],
+    },
+    async handler(params, context) {
+      const { sourcePath, destinationPath, conflict = "fail" } = params as {
+        sourcePath: string;
+        destinationPath: string;
+        conflict?: ConflictPolicy;
+      };
+      const validSourcePath = await validatePath(sourcePath, readConfig, "delete");
+      const validDestPath = await validatePath(destinationPath, readConfig, "write");
+      await validateDescendantModes(validSourcePath, "delete");
+      await validateDescendantModes(validDestPath, "write", readConfig, validSourcePath);
+      try {
+        // 拒否パターンに一致するファイルはディレクトリの中にあっても移動せずに残す
+        const isDenied = await createDeniedPathMatcher(await readConfig());
+        const summary = await context.changes.move("rename_directory", validSourcePath, validDestPath, { conflict, isDenied });
+        return textResult(
+          `ディレクトリを '${sourcePath}' から '${destinationPath}' に移動/名前変更しました: ${formatTransferSummary(summary)}`,
+          summary,
+        );
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
         }
+        throw new McpError(
+          ErrorCode.InternalError,
+          `ディレクトリ名前変更/移動エラー: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    },
+  },
+  {
+    name: "copy_file",
+    description: "ファイルまたはディレクトリをコピーします。ディレクトリは中身ごとコピーし、パーミッションと更新日時を引き継ぎます",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sourcePath: {
+          type: "string",
+          description: "コピー元のファイルまたはディレクトリのパス",
+        },
+        destinationPath: {
+          type: "string",
+          description: "コピー先のパス",
+        },
+        conflict: {
+          type: "string",
+          enum: ["overwrite", "skip", "fail"],
+          description: "コピー・移動先に同じ名前のファイルがある場合の扱い（overwrite: 上書き / skip: スキップ / fail: 何もせずにエラー）",
+          default: "overwrite",
+        },
       },
       required: ["sourcePath", "destinationPath"],
     },
+    async handler(params, context) {
+      const { sourcePath, destinationPath, conflict = "overwrite" } = params as {
+        sourcePath: string;
+        destinationPath: string;
+        conflict?: ConflictPolicy;
+      };
+      const validSourcePath = await validatePath(sourcePath);
+      const validDestPath = await validatePath(destinationPath, readConfig, "write");
+      await validateDescendantModes(validDestPath, "write", readConfig, validSourcePath);
+      try {
+        // 拒否パターンに一致するファイルはディレクトリの中にあってもコピーしない
+        const isDenied = await createDeniedPathMatcher(await readConfig());
+        const summary = await context.changes.copy("copy_file", validSourcePath, validDestPath, { conflict, isDenied });
+        return textResult(
+          `'${sourcePath}' を '${destinationPath}' にコピーしました: ${formatTransferSummary(summary)}`,
+          summary,
+        );
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        throw new McpError(
+          ErrorCode.InternalError,
+          `ファイルコピーエラー: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    },
   },
   {
     name: "move_file",
-    description: "ファイルを移動または名前変更します",
+    description: "ファイルまたはディレクトリを移動または名前変更します。ファイルシステムをまたぐ場合はコピーしてから移動元を削除します",
     inputSchema: {
       type: "object",
       properties: {
         sourcePath: {
           type: "string",
-          description: "移動元のファイルパス",
+          description: "移動元のファイルまたはディレクトリのパス",
         },
         destinationPath: {
           type: "string",
-          description: "移動先のファイルパス",
-        }
+          description: "移動先のパス",
+        },
+        conflict: {
+          type: "string",
+          enum: ["overwrite", "skip", "fail"],
+          description: "コピー・移動先に同じ名前のファイルがある場合の扱い（overwrite: 上書き / skip: スキップ / fail: 何もせずにエラー）",
+          default: "overwrite",
+        },
       },
       required: ["sourcePath", "destinationPath"],
     },
+    async handler(params, context) {
+      const { sourcePath, destinationPath, conflict = "overwrite" } = params as {
+        sourcePath: string;
+        destinationPath: string;
+        conflict?: ConflictPolicy;
+      };
+      const validSourcePath = await validatePath(sourcePath, readConfig, "delete");
+      const validDestPath = await validatePath(destinationPath, readConfig, "write");
+      await validateDescendantModes(validSourcePath, "delete");
+      await validateDescendantModes(validDestPath, "write", readConfig, validSourcePath);
+      try {
+        // 拒否パターンに一致するファイルはディレクトリの中にあっても移動せずに残す
+        const isDenied = await createDeniedPathMatcher(await readConfig());
+        const summary = await context.changes.move("move_file", validSourcePath, validDestPath, { conflict, isDenied });
+        return textResult(
+          `'${sourcePath}' を '${destinationPath}' に移動/名前変更しました: ${formatTransferSummary(summary)}`,
+          summary,
+        );
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        throw new McpError(
+          ErrorCode.InternalError,
+          `ファイル移動/名前変更エラー: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    },
   },
   {
     name: "delete_file",
@@ -65,6 +788,28 @@ export const fileOperationsAPIDefinitions: FileOperationAPIDefinition[] = [
       },
       required: ["path"],
     },
+    async handler(params, context) {
+      const { path: filePath } = params as {
+        path: string;
+      };
+      const validPath = await validatePath(filePath, readConfig, "delete");
+      try {
+        await context.changes.remove("delete_file", validPath);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `ファイル '${filePath}' を削除しました`,
+            },
+          ],
+        };
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          `ファイル削除エラー: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    },
   },
   {
     name: "file_exists",
@@ -79,115 +824,88 @@ export const fileOperationsAPIDefinitions: FileOperationAPIDefinition[] = [
       },
       required: ["path"],
     },
-  }
-];
-
-// ファイル操作APIの実装
-/*
-case "copy_file": {
-  const { sourcePath, destinationPath } = request.params.arguments as {
-    sourcePath: string;
-    destinationPath: string;
-  };
-  const validSourcePath = await validatePath(sourcePath);
-  const validDestPath = await validatePath(destinationPath);
-  try {
-    const content = await Deno.readFile(validSourcePath);
-    await Deno.writeFile(validDestPath, content);
-    return {
-      content: [
-        {
-          type: "text",
-          text: `ファイルを '${sourcePath}' から '${destinationPath}' にコピーしました`,
-        },
-      ],
-    };
-  } catch (error) {
-    throw new McpError(
-      ErrorCode.InternalError,
-      `ファイルコピーエラー: ${error instanceof Error ? error.message : String(error)}`
-    );
-  }
-}
-
-case "move_file": {
-  const { sourcePath, destinationPath } = request.params.arguments as {
-    sourcePath: string;
-    destinationPath: string;
-  };
-  const validSourcePath = await validatePath(sourcePath);
-  const validDestPath = await validatePath(destinationPath);
-  try {
-    await Deno.rename(validSourcePath, validDestPath);
-    return {
-      content: [
-        {
-          type: "text",
-          text: `ファイルを '${sourcePath}' から '${destinationPath}' に移動/名前変更しました`,
-        },
-      ],
-    };
-  } catch (error) {
-    throw new McpError(
-      ErrorCode.InternalError,
-      `ファイル移動/名前変更エラー: ${error instanceof Error ? error.message : String(error)}`
-    );
-  }
-}
-
-case "delete_file": {
-  const { path: filePath } = request.params.arguments as {
-    path: string;
-  };
-  const validPath = await validatePath(filePath);
-  try {
-    await Deno.remove(validPath);
-    return {
-      content: [
-        {
-          type: "text",
-          text: `ファイル '${filePath}' を削除しました`,
-        },
-      ],
-    };
-  } catch (error) {
-    throw new McpError(
-      ErrorCode.InternalError,
-      `ファイル削除エラー: ${error instanceof Error ? error.message : String(error)}`
-    );
-  }
-}
-
-case "file_exists": {
-  const { path: filePath } = request.params.arguments as {
-    path: string;
-  };
-  const validPath = await validatePath(filePath);
-  try {
-    const stat = await Deno.stat(validPath);
-    return {
-      content: [
-        {
-          type: "text",
-          text: `ファイル '${filePath}' は${stat.isFile ? "存在します" : "ファイルではありません"}`,
+    async handler(params) {
+      const { path: filePath } = params as {
+        path: string;
+      };
+      const validPath = await validatePath(filePath);
+      try {
+        const stat = await Deno.stat(validPath);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `ファイル '${filePath}' は${stat.isFile ? "存在します" : "ファイルではありません"}`,
+            },
+          ],
+        };
+      } catch (error) {
+        if (error instanceof Deno.errors.NotFound) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `ファイル '${filePath}' は存在しません`,
+              },
+            ],
+          };
+        }
+        throw new McpError(
+          ErrorCode.InternalError,
+          `ファイル存在チェックエラー: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    },
+  },
+  {
+    name: "undo_last_change",
+    description: "ファイル操作ツールによる最後の変更を取り消します。変更後に他から更新されたファイルは、forceを指定しない限り取り消しません",
+    inputSchema: {
+      type: "object",
+      properties: {
+        force: {
+          type: "boolean",
+          description: "trueの場合は変更後に更新されたファイルも取り消します",
+          default: false,
         },
-      ],
-    };
-  } catch (error) {
-    if (error instanceof Deno.errors.NotFound) {
+      },
+    },
+    async handler(params, context) {
+      const { force = false } = params as {
+        force?: boolean;
+      };
+      const record = await context.changes.undoLast(force);
       return {
         content: [
           {
             type: "text",
-            text: `ファイル '${filePath}' は存在しません`,
+            text: `変更 #${record.id} を取り消しました: [${record.tool}] ${record.description}`,
           },
         ],
+        structuredContent: record,
       };
-    }
-    throw new McpError(
-      ErrorCode.InternalError,
-      `ファイル存在チェックエラー: ${error instanceof Error ? error.message : String(error)}`
-    );
-  }
-}
-*/
+    },
+  },
+  {
+    name: "list_changes",
+    description: "取り消せるファイルの変更を新しい順に一覧表示します",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    handler(_params, context) {
+      const changes = context.changes.list();
+      return Promise.resolve({
+        content: [
+          {
+            type: "text",
+            text: changes.length > 0
+              ? changes.map((change) => `#${change.id} [${change.tool}] ${change.description} (${change.timestamp})`).join("\n")
+              : "取り消せる変更はありません",
+          },
+        ],
+        structuredContent: { changes },
+      });
+    },
+  },
+];
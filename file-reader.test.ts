@@ -0,0 +1,115 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { parseLineRange, readFileContent, readMultipleFiles } from "./file-reader.ts";
+import type { TextReadResult } from "./file-reader.ts";
+
+Deno.test("parseLineRange - 1から始まる行番号で終了行を含む範囲として解釈する", () => {
+  assertEquals(parseLineRange("2:4", 10), { start: 2, end: 4 });
+  assertEquals(parseLineRange("8:", 10), { start: 8, end: 10 });
+  assertEquals(parseLineRange(":3", 10), { start: 1, end: 3 });
+  assertEquals(parseLineRange("5", 10), { start: 5, end: 5 });
+  assertEquals(parseLineRange("-3:", 10), { start: 8, end: 10 });
+  assertEquals(parseLineRange("0:0", 10), { start: 1, end: 10 });
+  assertEquals(parseLineRange("5:100", 10), { start: 5, end: 10 });
+});
+
+Deno.test("readFileContent - 行番号・末尾の行・全体の行数を返す", async () => {
+  const file = await Deno.makeTempFile();
+  try {
+    await Deno.writeTextFile(file, Array.from({ length: 12 }, (_, i) => `line${i + 1}`).join("\n") + "\n");
+    const tail = await readFileContent(file, { tail: 2, lineNumbers: true }) as TextReadResult;
+    assertEquals(tail.text, "11\tline11\n12\tline12");
+    assertEquals([tail.totalLines, tail.startLine, tail.endLine, tail.truncated], [12, 11, 12, false]);
+
+    const limited = await readFileContent(file, { range: "2:", maxBytes: 14 }) as TextReadResult;
+    assertEquals(limited.text, "line2\nline3");
+    assertEquals([limited.endLine, limited.truncated], [3, true]);
+  } finally {
+    await Deno.remove(file);
+  }
+});
+
+Deno.test("readFileContent - 指定した文字コードで変換し、バイナリは拒否またはBase64で返す", async () => {
+  const file = await Deno.makeTempFile();
+  try {
+    // 「日本語」のShift_JISのバイト列
+    await Deno.writeFile(file, new Uint8Array([0x93, 0xfa, 0x96, 0x7b, 0x8c, 0xea]));
+    const sjis = await readFileContent(file, { encoding: "shift_jis" }) as TextReadResult;
+    assertEquals(sjis.text, "日本語");
+
+    await Deno.writeFile(file, new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]));
+    assertEquals(await readFileContent(file), { kind: "binary", size: 6, truncated: false });
+    assertEquals(await readFileContent(file, { binary: "base64" }), {
+      kind: "binary",
+      size: 6,
+      base64: "iVBORwAB",
+      truncated: false,
+    });
+  } finally {
+    await Deno.remove(file);
+  }
+});
+
+Deno.test("readFileContent - UTF-16は変換してから行に分割し、上限の範囲だけを読み取る", async () => {
+  const file = await Deno.makeTempFile();
+  try {
+    // 「ਊ」(U+0A0A) はUTF-16LEで 0x0a 0x0a になり、改行 (0x0a 0x00) のバイトを含む
+    const text = "aਊb\nline2\nline3\n";
+    const bytes = new Uint8Array(text.length * 2);
+    for (let i = 0; i < text.length; i++) {
+      bytes[i * 2] = text.charCodeAt(i) & 0xff;
+      bytes[i * 2 + 1] = text.charCodeAt(i) >> 8;
+    }
+    await Deno.writeFile(file, bytes);
+
+    const first = await readFileContent(file, { encoding: "utf-16le", range: "1" }) as TextReadResult;
+    assertEquals([first.text, first.totalLines], ["aਊb", 3]);
+    const rest = await readFileContent(file, { encoding: "utf-16le", range: "2:", lineNumbers: true }) as TextReadResult;
+    assertEquals([rest.text, rest.startLine, rest.endLine], ["2\tline2\n3\tline3", 2, 3]);
+    const limited = await readFileContent(file, { encoding: "utf-16le", range: "2:", maxBytes: 8 }) as TextReadResult;
+    assertEquals([limited.text, limited.endLine, limited.truncated], ["line2", 2, true]);
+
+    // 読み込む単位を超える大きさのファイルもチャンクごとに変換する
+    const large = Array.from({ length: 20000 }, (_, i) => `行${i + 1}`).join("\n");
+    const largeBytes = new Uint8Array(large.length * 2);
+    for (let i = 0; i < large.length; i++) {
+      largeBytes[i * 2] = large.charCodeAt(i) & 0xff;
+      largeBytes[i * 2 + 1] = large.charCodeAt(i) >> 8;
+    }
+    await Deno.writeFile(file, largeBytes);
+    const tail = await readFileContent(file, { encoding: "utf-16le", tail: 2 }) as TextReadResult;
+    assertEquals([tail.text, tail.totalLines], ["行19999\n行20000", 20000]);
+  } finally {
+    await Deno.remove(file);
+  }
+});
+
+Deno.test("readMultipleFiles - ファイルごとの結果とエラーを返し、合計サイズの上限を超えたファイルは読み取らない", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(`${dir}/a.txt`, "a1\na2\na3\n");
+    await Deno.writeTextFile(`${dir}/b.txt`, "b".repeat(20));
+    await Deno.writeTextFile(`${dir}/c.txt`, "c");
+    const validatePathFn = (requestedPath: string) =>
+      requestedPath.includes("secret") ? Promise.reject(new Error("アクセスが拒否されました")) : Promise.resolve(requestedPath);
+
+    const result = await readMultipleFiles(
+      [
+        { path: `${dir}/a.txt`, range: "2:" },
+        { path: `${dir}/secret.txt` },
+        { path: `${dir}/b.txt` },
+        { path: `${dir}/c.txt` },
+      ],
+      { maxTotalBytes: 15 },
+      validatePathFn,
+    );
+    assertEquals(result.files.map((file) => file.ok ? (file.kind === "text" ? file.text : file.kind) : file.error), [
+      "a2\na3",
+      "アクセスが拒否されました",
+      "b".repeat(10),
+      "合計サイズの上限に達したため読み取りませんでした",
+    ]);
+    assertEquals(result.budgetExceeded, true);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,362 @@
+import { ErrorCode, McpError } from "npm:@modelcontextprotocol/sdk/types.js";
+import { isBinaryContent } from "./file-search.ts";
+
+// 一度に返す内容のデフォルトの上限
+export const DEFAULT_MAX_READ_BYTES = 1024 * 1024;
+
+// ファイルを読み込む単位
+const READ_CHUNK_BYTES = 64 * 1024;
+
+// バイナリ判定に読み込む先頭のバイト数
+const BINARY_SNIFF_BYTES = 8000;
+
+const NEWLINE = 0x0a;
+
+/**
+ * ファイル読み取りのオプションを表すインターフェース
+ */
+export interface ReadFileOptions {
+  // 読み取る行の範囲 (「開始:終了」、1から始まる行番号で終了行を含む。負の値は末尾から数える)
+  range?: string;
+  // 末尾から読み取る行数
+  tail?: number;
+  // 行番号を付ける
+  lineNumbers?: boolean;
+  // 文字コード (utf-8, shift_jis, euc-jp など)
+  encoding?: string;
+  // 返す内容のバイト数の上限 (UTF-16のファイルはUTF-8に変換した後のバイト数で数える)
+  maxBytes?: number;
+  // バイナリファイルの扱い (refuse: 読み取りを拒否する / base64: Base64で返す)
+  binary?: "refuse" | "base64";
+}
+
+/**
+ * テキストファイルの読み取り結果
+ */
+export interface TextReadResult {
+  kind: "text";
+  text: string;
+  encoding: string;
+  totalLines: number;
+  // 返した行の範囲 (ファイルが空の場合は startLine > endLine)
+  startLine: number;
+  endLine: number;
+  // 上限を超えたため途中までしか返していない場合はtrue
+  truncated: boolean;
+}
+
+/**
+ * バイナリファイルの読み取り結果
+ */
+export interface BinaryReadResult {
+  kind: "binary";
+  size: number;
+  base64?: string;
+  truncated: boolean;
+}
+
+export type ReadFileResult = TextReadResult | BinaryReadResult;
+
+/**
+ * 行の範囲の指定を解釈する
+ *
+ * 「n:m」「n:」「:m」「n」の形式を受け付ける。0 は省略と同じ扱いにする。
+ */
+export function parseLineRange(range: string, totalLines: number): { start: number; end: number } {
+  const match = /^\s*(-?\d+)?\s*(:)?\s*(-?\d+)?\s*$/.exec(range);
+  if (!match || (match[2] === undefined && match[1] === undefined)) {
+    throw new McpError(ErrorCode.InvalidParams, `範囲の指定が不正です: '${range}' (例: 10:20, 10:, :20, -20:)`);
+  }
+  const toLine = (value: string | undefined, fallback: number) => {
+    const line = value === undefined ? 0 : Number(value);
+    return line === 0 ? fallback : line < 0 ? totalLines + line + 1 : line;
+  };
+
+  const start = Math.max(1, toLine(match[1], 1));
+  // 「n」だけの場合はその1行を読み取る
+  const end = Math.min(totalLines, match[2] === undefined ? start : toLine(match[3], totalLines));
+  if (totalLines > 0 && start > totalLines) {
+    throw new McpError(ErrorCode.InvalidParams, `開始行 ${start} がファイルの行数 (${totalLines}行) を超えています`);
+  }
+  if (totalLines > 0 && end < start) {
+    throw new McpError(ErrorCode.InvalidParams, `範囲の指定が不正です: '${range}' (終了行が開始行より前です)`);
+  }
+  return { start, end };
+}
+
+/**
+ * ファイルをチャンクごとに読み込む
+ *
+ * transcodeを指定した場合は、その文字コードから変換したテキストをUTF-8のバイト列で返す。
+ */
+async function* readChunks(filePath: string, transcode?: string): AsyncGenerator<Uint8Array> {
+  const file = await Deno.open(filePath, { read: true });
+  const decoder = transcode !== undefined ? new TextDecoder(transcode) : undefined;
+  const encoder = new TextEncoder();
+  try {
+    const buffer = new Uint8Array(READ_CHUNK_BYTES);
+    while (true) {
+      const bytesRead = await file.read(buffer);
+      if (bytesRead === null) {
+        break;
+      }
+      if (decoder === undefined) {
+        yield buffer.subarray(0, bytesRead);
+        continue;
+      }
+      const text = decoder.decode(buffer.subarray(0, bytesRead), { stream: true });
+      if (text.length > 0) {
+        yield encoder.encode(text);
+      }
+    }
+    const rest = decoder?.decode() ?? "";
+    if (rest.length > 0) {
+      yield encoder.encode(rest);
+    }
+  } finally {
+    file.close();
+  }
+}
+
+/**
+ * ファイルの先頭から指定したバイト数までを読み込む
+ */
+async function readHead(filePath: string, maxBytes: number): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+  let collected = 0;
+  for await (const chunk of readChunks(filePath)) {
+    parts.push(chunk.slice(0, maxBytes - collected));
+    collected += parts[parts.length - 1].length;
+    if (collected >= maxBytes) {
+      break;
+    }
+  }
+  return concat(parts);
+}
+
+/**
+ * ファイルの行数を数える
+ */
+async function countLines(filePath: string, size: number, transcode?: string): Promise<number> {
+  let newlines = 0;
+  let lastByte = NEWLINE;
+  for await (const chunk of readChunks(filePath, transcode)) {
+    for (const byte of chunk) {
+      if (byte === NEWLINE) {
+        newlines++;
+      }
+    }
+    lastByte = chunk[chunk.length - 1];
+  }
+  // 末尾が改行で終わらない場合は最後の行も数える
+  return size > 0 && lastByte !== NEWLINE ? newlines + 1 : newlines;
+}
+
+/**
+ * 指定した行の範囲のバイト列を上限の範囲で取り出す
+ */
+async function collectLines(
+  filePath: string,
+  start: number,
+  end: number,
+  maxBytes: number,
+  transcode?: string
+): Promise<{ bytes: Uint8Array; lastLine: number; truncated: boolean }> {
+  const parts: Uint8Array[] = [];
+  let collected = 0;
+  let line = 1;
+  let lineStartCollected = 0;
+
+  for await (const chunk of readChunks(filePath, transcode)) {
+    let segmentStart = 0;
+    for (let i = 0; i < chunk.length && line <= end; i++) {
+      if (chunk[i] !== NEWLINE) {
+        continue;
+      }
+      if (line >= start) {
+        const segment = chunk.slice(segmentStart, i + 1);
+        if (collected + segment.length > maxBytes) {
+          // 1行目から上限を超える場合は行の途中で切り詰める
+          if (line === start) {
+            parts.push(segment.slice(0, maxBytes - collected));
+            return { bytes: concat(parts), lastLine: line, truncated: true };
+          }
+          return { bytes: concat(parts).slice(0, lineStartCollected), lastLine: line - 1, truncated: true };
+        }
+        parts.push(segment);
+        collected += segment.length;
+        lineStartCollected = collected;
+      }
+      segmentStart = i + 1;
+      line++;
+    }
+    if (line > end) {
+      break;
+    }
+    // 改行を含まない残りは次のチャンクに続く行の一部
+    if (line >= start && segmentStart < chunk.length) {
+      const rest = chunk.slice(segmentStart);
+      if (collected + rest.length > maxBytes) {
+        if (line === start) {
+          parts.push(rest.slice(0, maxBytes - collected));
+          return { bytes: concat(parts), lastLine: line, truncated: true };
+        }
+        return { bytes: concat(parts).slice(0, lineStartCollected), lastLine: line - 1, truncated: true };
+      }
+      parts.push(rest);
+      collected += rest.length;
+    }
+  }
+  return { bytes: concat(parts), lastLine: end, truncated: false };
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * バイト列をBase64に変換する
+ */
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * ファイルを読み取る
+ *
+ * 指定した行の範囲だけを上限のバイト数まで読み込み、指定した文字コードで変換する。
+ */
+export async function readFileContent(filePath: string, options: ReadFileOptions = {}): Promise<ReadFileResult> {
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_READ_BYTES;
+  const encoding = options.encoding ?? "utf-8";
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(encoding);
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `サポートされていない文字コードです: ${encoding}`);
+  }
+  // 空の範囲はファイル全体として扱う
+  const range = options.range?.trim() || undefined;
+  if (range !== undefined && options.tail !== undefined) {
+    throw new McpError(ErrorCode.InvalidParams, "rangeとtailは同時に指定できません");
+  }
+
+  const stat = await Deno.stat(filePath);
+  if (!stat.isFile) {
+    throw new McpError(ErrorCode.InvalidParams, `ファイルではありません: ${filePath}`);
+  }
+
+  // UTF-16はNULバイトを含むため、バイナリの判定を行わない
+  if (!decoder.encoding.startsWith("utf-16")) {
+    if (isBinaryContent(await readHead(filePath, BINARY_SNIFF_BYTES))) {
+      if (options.binary !== "base64") {
+        return { kind: "binary", size: stat.size, truncated: false };
+      }
+      return {
+        kind: "binary",
+        size: stat.size,
+        base64: toBase64(await readHead(filePath, maxBytes)),
+        truncated: stat.size > maxBytes,
+      };
+    }
+  }
+
+  // UTF-16は改行以外の文字のバイト列にも0x0aが含まれるため、チャンクごとにUTF-8に変換してから行を数える
+  const transcode = decoder.encoding.startsWith("utf-16") ? decoder.encoding : undefined;
+  const totalLines = await countLines(filePath, stat.size, transcode);
+  const { start, end } = options.tail !== undefined
+    ? { start: Math.max(1, totalLines - Math.max(0, options.tail) + 1), end: totalLines }
+    : range !== undefined
+    ? parseLineRange(range, totalLines)
+    : { start: 1, end: totalLines };
+
+  const { bytes, lastLine, truncated } = await collectLines(filePath, start, end, maxBytes, transcode);
+  let text = (transcode !== undefined ? new TextDecoder() : decoder).decode(bytes);
+  if (text.endsWith("\n")) {
+    text = text.slice(0, -1);
+  }
+  if (options.lineNumbers && text.length > 0) {
+    const width = String(lastLine).length;
+    text = text.split("\n").map((line, index) => `${String(start + index).padStart(width, " ")}\t${line}`).join("\n");
+  }
+
+  return {
+    kind: "text",
+    text,
+    encoding: decoder.encoding,
+    totalLines,
+    startLine: start,
+    endLine: Math.min(lastLine, end),
+    truncated,
+  };
+}
+
+// 複数ファイルの読み取りで返す内容の合計のデフォルトの上限
+export const DEFAULT_MAX_TOTAL_READ_BYTES = 2 * 1024 * 1024;
+
+/**
+ * 複数ファイルの読み取りで指定する各ファイル
+ */
+export interface FileReadRequest {
+  path: string;
+  range?: string;
+}
+
+/**
+ * 複数ファイルの読み取りの各ファイルの結果
+ */
+export type MultipleFileReadEntry =
+  | ({ path: string; ok: true } & ReadFileResult)
+  | { path: string; ok: false; error: string };
+
+/**
+ * 複数のファイルを読み取る
+ *
+ * 読み取れないファイルがあっても他のファイルの読み取りは続け、ファイルごとにエラーを返す。
+ * 返す内容の合計が上限に達した後のファイルは読み取らない。
+ */
+export async function readMultipleFiles(
+  requests: FileReadRequest[],
+  options: Omit<ReadFileOptions, "range" | "tail" | "maxBytes"> & { maxTotalBytes?: number },
+  validatePathFn: (requestedPath: string) => Promise<string>
+): Promise<{ files: MultipleFileReadEntry[]; totalBytes: number; budgetExceeded: boolean }> {
+  const { maxTotalBytes = DEFAULT_MAX_TOTAL_READ_BYTES, ...readOptions } = options;
+  const encoder = new TextEncoder();
+  const files: MultipleFileReadEntry[] = [];
+  let totalBytes = 0;
+  let budgetExceeded = false;
+
+  for (const request of requests) {
+    const remaining = maxTotalBytes - totalBytes;
+    if (remaining <= 0) {
+      budgetExceeded = true;
+      files.push({ path: request.path, ok: false, error: "合計サイズの上限に達したため読み取りませんでした" });
+      continue;
+    }
+    try {
+      const validPath = await validatePathFn(request.path);
+      const result = await readFileContent(validPath, { ...readOptions, range: request.range, maxBytes: remaining });
+      totalBytes += result.kind === "text"
+        ? encoder.encode(result.text).length
+        : result.base64?.length ?? 0;
+      if (result.truncated) {
+        budgetExceeded = true;
+      }
+      files.push({ path: request.path, ok: true, ...result });
+    } catch (error) {
+      files.push({ path: request.path, ok: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { files, totalBytes, budgetExceeded };
+}
@@ -0,0 +1,76 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { McpError } from "npm:@modelcontextprotocol/sdk/types.js";
+import { formatSearchResult, searchFiles } from "./file-search.ts";
+
+// テスト用のディレクトリ構成を作る
+async function createFixture(): Promise<string> {
+  const root = await Deno.makeTempDir();
+  await Deno.mkdir(`${root}/src`);
+  await Deno.mkdir(`${root}/node_modules`);
+  await Deno.writeTextFile(`${root}/.gitignore`, "node_modules\n");
+  await Deno.writeTextFile(`${root}/src/main.ts`, "import { run } from './run.ts';\n\nrun();\n// TODO: cleanup\n");
+  await Deno.writeTextFile(`${root}/src/run.ts`, "export function run() {\n  console.log('Run');\n}\n");
+  await Deno.writeTextFile(`${root}/node_modules/lib.js`, "run();\n");
+  await Deno.writeFile(`${root}/src/image.bin`, new Uint8Array([0x72, 0x75, 0x6e, 0x00, 0x01]));
+  await Deno.writeTextFile(`${root}/.env`, "run=1\n");
+  return root;
+}
+
+Deno.test("searchFiles - バイナリ・.gitignore・拒否パターンに一致するファイルを除いて検索する", async () => {
+  const root = await createFixture();
+  try {
+    const result = await searchFiles([root], {
+      query: "run(",
+      respectGitignore: true,
+      isDenied: (target) => target.endsWith(".env") ? ".env" : undefined,
+    });
+    assertEquals(
+      result.matches.map((match) => [match.file.slice(root.length + 1), match.line, match.column]),
+      [["src/main.ts", 3, 1], ["src/run.ts", 1, 17]],
+    );
+    assertEquals(result.truncated, false);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("searchFiles - 正規表現・大文字小文字の区別・前後の行・結果の上限を指定できる", async () => {
+  const root = await createFixture();
+  try {
+    const result = await searchFiles([`${root}/src`], {
+      query: "^\\s*console\\.log\\('run",
+      regex: true,
+      caseSensitive: false,
+      contextLines: 1,
+      include: ["*.ts"],
+      maxResults: 1,
+    });
+    assertEquals(result.matches.length, 1);
+    assertEquals(result.matches[0].before, ["export function run() {"]);
+    assertEquals(result.matches[0].after, ["}"]);
+    assertEquals(
+      formatSearchResult(result).split("\n").slice(0, 3),
+      [
+        `${root}/src/run.ts-1-export function run() {`,
+        `${root}/src/run.ts:2:  console.log('Run');`,
+        `${root}/src/run.ts-3-}`,
+      ],
+    );
+
+    const limited = await searchFiles([`${root}/src`], { query: "run", maxResults: 2 });
+    assertEquals(limited.matches.length, 2);
+    assertEquals(limited.truncated, true);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("searchFiles - 不正な正規表現はエラーを投げる", async () => {
+  let caught: unknown;
+  try {
+    await searchFiles([], { query: "(", regex: true });
+  } catch (error) {
+    caught = error;
+  }
+  assertEquals(caught instanceof McpError, true);
+});
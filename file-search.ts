@@ -0,0 +1,157 @@
+import { ErrorCode, McpError } from "npm:@modelcontextprotocol/sdk/types.js";
+import { walkDirectory } from "./directory-tree.ts";
+import type { WalkOptions } from "./directory-tree.ts";
+
+// 検索結果のデフォルトの上限
+export const DEFAULT_MAX_SEARCH_RESULTS = 100;
+
+// 検索対象とするファイルサイズの上限
+const MAX_SEARCH_FILE_BYTES = 10 * 1024 * 1024;
+
+// バイナリ判定に使う先頭のバイト数
+const BINARY_SNIFF_BYTES = 8000;
+
+/**
+ * ファイル検索のオプションを表すインターフェース
+ */
+export interface SearchOptions extends Omit<WalkOptions, "maxDepth"> {
+  query: string;
+  // trueの場合はqueryを正規表現として扱う
+  regex?: boolean;
+  caseSensitive?: boolean;
+  // 一致した行の前後に含める行数
+  contextLines?: number;
+  maxResults?: number;
+}
+
+/**
+ * 検索で一致した行
+ */
+export interface SearchMatch {
+  file: string;
+  line: number;
+  column: number;
+  text: string;
+  before: string[];
+  after: string[];
+}
+
+/**
+ * ファイル検索の結果
+ */
+export interface SearchResult {
+  matches: SearchMatch[];
+  filesSearched: number;
+  // 結果の上限に達したため打ち切った場合はtrue
+  truncated: boolean;
+}
+
+/**
+ * 先頭にNULバイトを含む内容をバイナリとみなす
+ */
+export function isBinaryContent(bytes: Uint8Array): boolean {
+  return bytes.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+/**
+ * 検索語を正規表現に変換する
+ */
+function buildPattern(options: SearchOptions): RegExp {
+  const source = options.regex ? options.query : options.query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  try {
+    return new RegExp(source, options.caseSensitive === false ? "i" : "");
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `検索パターンが不正です: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * ディレクトリ配下のファイルの内容を検索する
+ *
+ * バイナリファイルと大きすぎるファイルは検索しない。
+ */
+export async function searchFiles(roots: string[], options: SearchOptions): Promise<SearchResult> {
+  const pattern = buildPattern(options);
+  const maxResults = options.maxResults ?? DEFAULT_MAX_SEARCH_RESULTS;
+  const contextLines = options.contextLines ?? 0;
+  const matches: SearchMatch[] = [];
+  // 許可されたディレクトリが入れ子になっている場合に同じファイルを二度検索しない
+  const searched = new Set<string>();
+
+  const searchFile = async (file: string): Promise<boolean> => {
+    if (searched.has(file)) {
+      return true;
+    }
+    searched.add(file);
+
+    const stat = await Deno.stat(file);
+    if (!stat.isFile || stat.size > MAX_SEARCH_FILE_BYTES) {
+      return true;
+    }
+    const bytes = await Deno.readFile(file);
+    if (isBinaryContent(bytes)) {
+      return true;
+    }
+
+    const lines = new TextDecoder().decode(bytes).split(/\r?\n/);
+    for (const [index, text] of lines.entries()) {
+      const match = pattern.exec(text);
+      if (match === null) {
+        continue;
+      }
+      if (matches.length >= maxResults) {
+        return false;
+      }
+      matches.push({
+        file,
+        line: index + 1,
+        column: match.index + 1,
+        text,
+        before: lines.slice(Math.max(0, index - contextLines), index),
+        after: lines.slice(index + 1, index + 1 + contextLines),
+      });
+    }
+    return true;
+  };
+
+  for (const root of roots) {
+    const stat = await Deno.stat(root);
+    if (stat.isFile) {
+      if (!(await searchFile(root))) {
+        return { matches, filesSearched: searched.size, truncated: true };
+      }
+      continue;
+    }
+    for await (const entry of walkDirectory(root, { ...options, maxDepth: Infinity })) {
+      if (entry.isFile && !(await searchFile(entry.path))) {
+        return { matches, filesSearched: searched.size, truncated: true };
+      }
+    }
+  }
+
+  return { matches, filesSearched: searched.size, truncated: false };
+}
+
+/**
+ * 検索結果をgrepと同じ「ファイル:行:内容」の形式に整形する
+ */
+export function formatSearchResult(result: SearchResult): string {
+  const withContext = result.matches.some((match) => match.before.length > 0 || match.after.length > 0);
+  const blocks = result.matches.map((match) => [
+    ...match.before.map((text, index) => `${match.file}-${match.line - match.before.length + index}-${text}`),
+    `${match.file}:${match.line}:${match.text}`,
+    ...match.after.map((text, index) => `${match.file}-${match.line + 1 + index}-${text}`),
+  ].join("\n"));
+
+  const lines = [
+    blocks.join(withContext ? "\n--\n" : "\n"),
+    `${result.matches.length}件一致しました (${result.filesSearched}ファイルを検索)`,
+  ];
+  if (result.truncated) {
+    lines.push("※ 結果が上限に達したため、以降の検索を打ち切りました");
+  }
+  return lines.filter((line) => line.length > 0).join("\n");
+}
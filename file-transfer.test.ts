@@ -0,0 +1,109 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import * as path from "@std/path";
+import { copyPath, movePath, summarizeTransfer } from "./file-transfer.ts";
+import { createDeniedPathMatcher } from "./path-validator.ts";
+
+/**
+ * 次の構成のコピー元を用意してテストを実行する
+ *
+ * src/a.txt, src/sub/b.txt, src/.env
+ */
+async function withTree(fn: (src: string, root: string) => Promise<void>) {
+  const root = await Deno.makeTempDir();
+  const src = path.join(root, "src");
+  try {
+    await Deno.mkdir(path.join(src, "sub"), { recursive: true });
+    await Deno.writeTextFile(path.join(src, "a.txt"), "a");
+    await Deno.writeTextFile(path.join(src, "sub", "b.txt"), "bb");
+    await Deno.writeTextFile(path.join(src, ".env"), "SECRET=1");
+    await fn(src, root);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+}
+
+async function errorMessage(promise: Promise<unknown>): Promise<string> {
+  try {
+    await promise;
+    return "";
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+Deno.test("copyPath - ディレクトリを再帰的にコピーし、パーミッションと更新日時を引き継ぐ", async () => {
+  await withTree(async (src, root) => {
+    const file = path.join(src, "sub", "b.txt");
+    const mtime = new Date("2024-01-02T03:04:05Z");
+    await Deno.utime(file, mtime, mtime);
+    if (Deno.build.os !== "windows") {
+      await Deno.chmod(file, 0o600);
+    }
+
+    const dest = path.join(root, "dest");
+    const summary = summarizeTransfer(await copyPath(src, dest, { isDenied: (target) => target.endsWith(".env") ? ".env" : undefined }));
+    assertEquals([summary.copied, summary.directories, summary.bytes], [2, 2, 3]);
+    assertEquals(summary.skipped, [{ path: path.join(src, ".env"), reason: ".env" }]);
+
+    const copied = await Deno.stat(path.join(dest, "sub", "b.txt"));
+    assertEquals(copied.mtime?.getTime(), mtime.getTime());
+    if (Deno.build.os !== "windows") {
+      assertEquals(copied.mode! & 0o777, 0o600);
+    }
+    assertEquals(await Deno.readTextFile(path.join(dest, "a.txt")), "a");
+  });
+});
+
+Deno.test("copyPath - 既存のファイルをconflictに従って扱う", async () => {
+  await withTree(async (src, root) => {
+    const dest = path.join(root, "dest");
+    await Deno.mkdir(dest);
+    await Deno.writeTextFile(path.join(dest, "a.txt"), "old");
+
+    // failの場合は何もコピーしない
+    assertEquals((await errorMessage(copyPath(src, dest))).includes("既に存在します"), true);
+    assertEquals(await Array.fromAsync(Deno.readDir(dest)).then((entries) => entries.length), 1);
+
+    const skipped = summarizeTransfer(await copyPath(src, dest, { conflict: "skip" }));
+    assertEquals(skipped.skipped.map((entry) => entry.reason), ["conflict"]);
+    assertEquals(await Deno.readTextFile(path.join(dest, "a.txt")), "old");
+
+    const overwritten = summarizeTransfer(await copyPath(src, dest, { conflict: "overwrite" }));
+    assertEquals(overwritten.overwritten.length, 3);
+    assertEquals(await Deno.readTextFile(path.join(dest, "a.txt")), "a");
+
+    assertEquals((await errorMessage(copyPath(src, path.join(src, "sub", "copy")))).includes("の中にある"), true);
+  });
+});
+
+Deno.test("movePath - 既存のディレクトリに中身をまとめ、空になった移動元を削除する", async () => {
+  await withTree(async (src, root) => {
+    const dest = path.join(root, "dest");
+    await Deno.mkdir(path.join(dest, "sub"), { recursive: true });
+    await Deno.writeTextFile(path.join(dest, "sub", "c.txt"), "c");
+
+    const events = await movePath(src, dest);
+    assertEquals(events.map((event) => event.type), ["move", "move", "move", "rmdir", "rmdir"]);
+    assertEquals(await Deno.readTextFile(path.join(dest, "sub", "b.txt")), "bb");
+    assertEquals(await Deno.readTextFile(path.join(dest, "sub", "c.txt")), "c");
+    assertEquals((await errorMessage(Deno.lstat(src))).length > 0, true);
+  });
+});
+
+Deno.test("movePath - 拒否パターンに一致するファイルはディレクトリの中にあっても移動せずに残す", async () => {
+  const root = await Deno.makeTempDir();
+  try {
+    await Deno.mkdir(path.join(root, "secrets"));
+    await Deno.writeTextFile(path.join(root, "secrets", "key.pem"), "PRIVATE");
+    await Deno.writeTextFile(path.join(root, "secrets", "notes.txt"), "notes");
+    const isDenied = await createDeniedPathMatcher({ allowedDirectories: [root], deniedPatterns: ["secrets/*.pem"] });
+
+    const summary = summarizeTransfer(await movePath(path.join(root, "secrets"), path.join(root, "public"), { isDenied }));
+    assertEquals(summary.skipped, [{ path: path.join(root, "secrets", "key.pem"), reason: "secrets/*.pem" }]);
+    assertEquals(await Deno.readTextFile(path.join(root, "public", "notes.txt")), "notes");
+    assertEquals((await errorMessage(Deno.lstat(path.join(root, "public", "key.pem")))).length > 0, true);
+    assertEquals(await Deno.readTextFile(path.join(root, "secrets", "key.pem")), "PRIVATE");
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
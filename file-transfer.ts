@@ -0,0 +1,391 @@
+import * as path from "@std/path";
+import { ErrorCode, McpError } from "npm:@modelcontextprotocol/sdk/types.js";
+import { isPathWithin } from "./path-validator.ts";
+
+/**
+ * コピー・移動先が既に存在する場合の扱い
+ *
+ * overwrite: 上書きする / skip: そのファイルをスキップする / fail: 何もせずにエラーにする
+ */
+export type ConflictPolicy = "overwrite" | "skip" | "fail";
+
+/**
+ * コピー・移動で行った個々の操作
+ */
+export type TransferEvent =
+  // コピー先にディレクトリを作成した
+  | { type: "mkdir"; path: string }
+  // ファイルまたはシンボリックリンクをコピーした
+  | { type: "copy"; from: string; path: string; bytes: number; overwritten: boolean }
+  // ファイルまたはディレクトリを移動した
+  | { type: "move"; from: string; path: string; overwritten: boolean }
+  // 移動先のディレクトリにまとめた後、空になった移動元のディレクトリを削除した
+  | { type: "rmdir"; path: string }
+  // コピー・移動しなかった (reasonは既に存在する場合はconflict、拒否パターンに一致する場合はパターン)
+  | { type: "skip"; from: string; path: string; reason: string };
+
+/**
+ * コピー・移動のオプション
+ */
+export interface TransferOptions {
+  conflict?: ConflictPolicy;
+  // 拒否パターンに一致するパスを返す関数 (一致したエントリはコピー・移動しない)
+  isDenied?: (target: string) => string | undefined;
+  // 既存のファイルを上書きする直前に呼ばれる関数 (バックアップに使う)
+  beforeOverwrite?: (target: string) => Promise<void>;
+}
+
+/**
+ * コピー・移動の結果の集計
+ */
+export interface TransferSummary {
+  copied: number;
+  // ディレクトリごと移動した場合は1件として数える
+  moved: number;
+  directories: number;
+  bytes: number;
+  overwritten: string[];
+  skipped: { path: string; reason: string }[];
+}
+
+async function lstatOrUndefined(target: string): Promise<Deno.FileInfo | undefined> {
+  try {
+    return await Deno.lstat(target);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 名前順にディレクトリのエントリを返す
+ */
+async function readDirSorted(dir: string): Promise<string[]> {
+  const names: string[] = [];
+  for await (const entry of Deno.readDir(dir)) {
+    names.push(entry.name);
+  }
+  return names.sort();
+}
+
+function conflictError(target: string): McpError {
+  return new McpError(
+    ErrorCode.InvalidParams,
+    `'${target}' は既に存在します (conflictにoverwriteまたはskipを指定すると続行できます)`
+  );
+}
+
+function typeMismatchError(source: string, destination: string): McpError {
+  return new McpError(
+    ErrorCode.InvalidParams,
+    `'${source}' と '${destination}' の種類 (ファイル/ディレクトリ) が異なるため上書きできません`
+  );
+}
+
+/**
+ * コピー・移動先が既に存在するパスを探す (種類が異なる場合はエラーにする)
+ */
+async function findConflict(source: string, destination: string, options: TransferOptions): Promise<string | undefined> {
+  if (options.isDenied?.(source) !== undefined) {
+    return undefined;
+  }
+  const sourceStat = await Deno.lstat(source);
+  const destinationStat = await lstatOrUndefined(destination);
+  if (destinationStat === undefined) {
+    return undefined;
+  }
+  if (sourceStat.isDirectory !== destinationStat.isDirectory) {
+    throw typeMismatchError(source, destination);
+  }
+  if (!sourceStat.isDirectory) {
+    return destination;
+  }
+  for (const name of await readDirSorted(source)) {
+    const conflict = await findConflict(path.join(source, name), path.join(destination, name), options);
+    if (conflict !== undefined) {
+      return conflict;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 開始前にコピー・移動元とコピー・移動先の関係を確認する
+ */
+async function checkTransfer(source: string, destination: string, options: TransferOptions): Promise<void> {
+  if ((await Deno.lstat(source)).isDirectory && isPathWithin(source, destination)) {
+    throw new McpError(ErrorCode.InvalidParams, `'${destination}' は '${source}' の中にあるためコピー・移動できません`);
+  }
+  // failの場合は途中までコピー・移動した状態にしないよう、先に衝突を確認する
+  if ((options.conflict ?? "fail") === "fail") {
+    const conflict = await findConflict(source, destination, options);
+    if (conflict !== undefined) {
+      throw conflictError(conflict);
+    }
+  }
+}
+
+/**
+ * ファイルの内容をストリームでコピーし、パーミッションと更新日時を引き継ぐ
+ *
+ * 一時ファイルに書き込んでから置き換えるため、コピー先が途中まで書かれた状態にはならない。
+ */
+async function copyFileContent(source: string, destination: string, stat: Deno.FileInfo): Promise<void> {
+  const tempPath = path.join(
+    path.dirname(destination),
+    `.${path.basename(destination)}.${crypto.randomUUID().slice(0, 8)}.tmp`,
+  );
+  try {
+    const input = await Deno.open(source, { read: true });
+    const output = await Deno.open(tempPath, { write: true, createNew: true });
+    await input.readable.pipeTo(output.writable);
+    if (stat.mode !== null && Deno.build.os !== "windows") {
+      await Deno.chmod(tempPath, stat.mode & 0o7777);
+    }
+    if (stat.mtime !== null) {
+      await Deno.utime(tempPath, stat.atime ?? stat.mtime, stat.mtime);
+    }
+    await Deno.rename(tempPath, destination);
+  } catch (error) {
+    await Deno.remove(tempPath).catch(() => {});
+    throw error;
+  }
+}
+
+async function copyEntry(
+  source: string,
+  destination: string,
+  options: TransferOptions,
+  events: TransferEvent[]
+): Promise<void> {
+  const denied = options.isDenied?.(source) ?? options.isDenied?.(destination);
+  if (denied !== undefined) {
+    events.push({ type: "skip", from: source, path: destination, reason: denied });
+    return;
+  }
+
+  const sourceStat = await Deno.lstat(source);
+  const destinationStat = await lstatOrUndefined(destination);
+  if (destinationStat !== undefined && sourceStat.isDirectory !== destinationStat.isDirectory) {
+    throw typeMismatchError(source, destination);
+  }
+
+  if (sourceStat.isDirectory) {
+    if (destinationStat === undefined) {
+      await Deno.mkdir(destination);
+      events.push({ type: "mkdir", path: destination });
+    }
+    for (const name of await readDirSorted(source)) {
+      await copyEntry(path.join(source, name), path.join(destination, name), options, events);
+    }
+    // 中身のコピーで更新日時が変わるため、最後に引き継ぐ
+    if (destinationStat === undefined) {
+      if (sourceStat.mode !== null && Deno.build.os !== "windows") {
+        await Deno.chmod(destination, sourceStat.mode & 0o7777);
+      }
+      if (sourceStat.mtime !== null) {
+        await Deno.utime(destination, sourceStat.atime ?? sourceStat.mtime, sourceStat.mtime);
+      }
+    }
+    return;
+  }
+
+  if (destinationStat !== undefined) {
+    const conflict = options.conflict ?? "fail";
+    if (conflict === "fail") {
+      throw conflictError(destination);
+    }
+    if (conflict === "skip") {
+      events.push({ type: "skip", from: source, path: destination, reason: "conflict" });
+      return;
+    }
+    await options.beforeOverwrite?.(destination);
+  }
+
+  if (sourceStat.isSymlink) {
+    if (destinationStat !== undefined) {
+      await Deno.remove(destination);
+    }
+    await Deno.symlink(await Deno.readLink(source), destination);
+  } else {
+    await copyFileContent(source, destination, sourceStat);
+  }
+  events.push({
+    type: "copy",
+    from: source,
+    path: destination,
+    bytes: sourceStat.isSymlink ? 0 : sourceStat.size,
+    overwritten: destinationStat !== undefined,
+  });
+}
+
+/**
+ * ファイルまたはディレクトリを再帰的にコピーする
+ *
+ * コピー先のディレクトリが既に存在する場合は中身をまとめ、既存のファイルは conflict に従って扱う。
+ */
+export async function copyPath(
+  source: string,
+  destination: string,
+  options: TransferOptions = {}
+): Promise<TransferEvent[]> {
+  await checkTransfer(source, destination, options);
+  const events: TransferEvent[] = [];
+  await copyEntry(source, destination, options, events);
+  return events;
+}
+
+/**
+ * パスの名前を変更する (ファイルシステムをまたぐ場合はコピーしてから削除する)
+ */
+async function renamePath(source: string, destination: string): Promise<void> {
+  try {
+    await Deno.rename(source, destination);
+  } catch (error) {
+    // 別のデバイスへの移動はrenameできないため、コピーしてから削除する
+    if (!(error instanceof Error) || !/cross-device|EXDEV/i.test(error.message)) {
+      throw error;
+    }
+    await copyEntry(source, destination, { conflict: "overwrite" }, []);
+    await Deno.remove(source, { recursive: true });
+  }
+}
+
+/**
+ * ディレクトリの中に拒否パターンに一致するエントリがあるかを確認する
+ */
+async function containsDenied(source: string, destination: string, options: TransferOptions): Promise<boolean> {
+  if (options.isDenied === undefined) {
+    return false;
+  }
+  for (const name of await readDirSorted(source)) {
+    const sourceEntry = path.join(source, name);
+    const destinationEntry = path.join(destination, name);
+    if ((options.isDenied(sourceEntry) ?? options.isDenied(destinationEntry)) !== undefined) {
+      return true;
+    }
+    if ((await Deno.lstat(sourceEntry)).isDirectory && await containsDenied(sourceEntry, destinationEntry, options)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+async function moveEntry(
+  source: string,
+  destination: string,
+  options: TransferOptions,
+  events: TransferEvent[]
+): Promise<void> {
+  const denied = options.isDenied?.(source) ?? options.isDenied?.(destination);
+  if (denied !== undefined) {
+    events.push({ type: "skip", from: source, path: destination, reason: denied });
+    return;
+  }
+
+  const sourceStat = await Deno.lstat(source);
+  const destinationStat = await lstatOrUndefined(destination);
+  if (destinationStat === undefined) {
+    // 拒否パターンに一致するエントリを含むディレクトリはまとめて移動せず、一致したエントリを残す
+    if (!sourceStat.isDirectory || !(await containsDenied(source, destination, options))) {
+      await renamePath(source, destination);
+      events.push({ type: "move", from: source, path: destination, overwritten: false });
+      return;
+    }
+    await Deno.mkdir(destination);
+    events.push({ type: "mkdir", path: destination });
+  } else if (sourceStat.isDirectory !== destinationStat.isDirectory) {
+    throw typeMismatchError(source, destination);
+  }
+
+  if (sourceStat.isDirectory) {
+    for (const name of await readDirSorted(source)) {
+      await moveEntry(path.join(source, name), path.join(destination, name), options, events);
+    }
+    if (destinationStat === undefined && sourceStat.mode !== null && Deno.build.os !== "windows") {
+      await Deno.chmod(destination, sourceStat.mode & 0o7777);
+    }
+    // スキップしたエントリが残っている場合は移動元のディレクトリを残す
+    if ((await readDirSorted(source)).length === 0) {
+      await Deno.remove(source);
+      events.push({ type: "rmdir", path: source });
+    }
+    return;
+  }
+
+  const conflict = options.conflict ?? "fail";
+  if (conflict === "fail") {
+    throw conflictError(destination);
+  }
+  if (conflict === "skip") {
+    events.push({ type: "skip", from: source, path: destination, reason: "conflict" });
+    return;
+  }
+  await options.beforeOverwrite?.(destination);
+  await renamePath(source, destination);
+  events.push({ type: "move", from: source, path: destination, overwritten: true });
+}
+
+/**
+ * ファイルまたはディレクトリを移動する
+ *
+ * 移動先のディレクトリが既に存在する場合は中身をまとめ、既存のファイルは conflict に従って扱う。
+ * ファイルシステムをまたぐ場合はコピーしてから移動元を削除する。
+ */
+export async function movePath(
+  source: string,
+  destination: string,
+  options: TransferOptions = {}
+): Promise<TransferEvent[]> {
+  await checkTransfer(source, destination, options);
+  const events: TransferEvent[] = [];
+  await moveEntry(source, destination, options, events);
+  return events;
+}
+
+/**
+ * コピー・移動で行った操作を集計する
+ */
+export function summarizeTransfer(events: TransferEvent[]): TransferSummary {
+  const summary: TransferSummary = { copied: 0, moved: 0, directories: 0, bytes: 0, overwritten: [], skipped: [] };
+  for (const event of events) {
+    switch (event.type) {
+      case "mkdir":
+        summary.directories++;
+        break;
+      case "copy":
+        summary.copied++;
+        summary.bytes += event.bytes;
+        break;
+      case "move":
+        summary.moved++;
+        break;
+      case "skip":
+        summary.skipped.push({ path: event.from, reason: event.reason });
+        break;
+    }
+    if ((event.type === "copy" || event.type === "move") && event.overwritten) {
+      summary.overwritten.push(event.path);
+    }
+  }
+  return summary;
+}
+
+/**
+ * 集計を1行のテキストに整形する
+ */
+export function formatTransferSummary(summary: TransferSummary): string {
+  const parts = summary.moved > 0 ? [`移動 ${summary.moved}件`] : [`コピー ${summary.copied}件 (${summary.bytes}バイト)`];
+  if (summary.directories > 0) {
+    parts.push(`ディレクトリ作成 ${summary.directories}件`);
+  }
+  if (summary.overwritten.length > 0) {
+    parts.push(`上書き ${summary.overwritten.length}件`);
+  }
+  if (summary.skipped.length > 0) {
+    parts.push(`スキップ ${summary.skipped.length}件`);
+  }
+  return parts.join("、");
+}
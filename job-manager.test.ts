@@ -0,0 +1,73 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { McpError } from "npm:@modelcontextprotocol/sdk/types.js";
+import { JobManager } from "./job-manager.ts";
+import type { Config } from "./config.ts";
+
+// テスト用の設定ファイル読み込み関数
+const mockReadConfigFn = (): Promise<Config> => Promise.resolve({ allowedDirectories: [] });
+
+Deno.test("JobManager - 許可されていないコマンドはジョブとして起動しない", async () => {
+  const jobs = new JobManager();
+
+  try {
+    await jobs.start({
+      commandName: "rm -rf /",
+      allowedCommands: new Set(["sleep"]),
+      readConfigFn: mockReadConfigFn
+    });
+    assertEquals(true, false, "許可されていないコマンドが起動されました");
+  } catch (error) {
+    assertEquals(error instanceof McpError, true);
+    assertEquals(jobs.list(), []);
+  }
+});
+
+Deno.test({
+  name: "JobManager - カーソル以降の出力を返し、killでプロセスを終了させる",
+  ignore: Deno.build.os === "windows",
+  fn: async () => {
+    const jobs = new JobManager();
+    const status = await jobs.start({
+      commandName: "sh",
+      args: ["-c", "echo first; sleep 0.2; echo second; sleep 30"],
+      allowedCommands: new Set(["sh"]),
+      readConfigFn: mockReadConfigFn
+    });
+    assertEquals(status.state, "running");
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    const first = jobs.output(status.jobId);
+    assertEquals(first.stdout, "first\n");
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    const second = jobs.output(status.jobId, first.nextCursor);
+    assertEquals(second.stdout, "second\n");
+    assertEquals(second.dropped, false);
+
+    const killed = await jobs.kill(status.jobId);
+    assertEquals(killed.state, "killed");
+    assertEquals(killed.signal, "SIGKILL");
+  }
+});
+
+Deno.test({
+  name: "JobManager - 子孫が出力ストリームを開いたままでもkillは猶予を過ぎると戻る",
+  ignore: Deno.build.os === "windows",
+  fn: async () => {
+    const jobs = new JobManager();
+    // サブシェルから起動したsleepはプロセスツリーの外に出て、標準出力を開いたままにする
+    const status = await jobs.start({
+      commandName: "sh",
+      args: ["-c", "(sleep 5 &); echo started; sleep 30"],
+      allowedCommands: new Set(["sh"]),
+      readConfigFn: mockReadConfigFn
+    });
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    const startedAt = Date.now();
+    const killed = await jobs.kill(status.jobId);
+    assertEquals(killed.state, "killed");
+    assertEquals(Date.now() - startedAt < 4000, true);
+    assertEquals(jobs.output(status.jobId).stdout, "started\n");
+  }
+});
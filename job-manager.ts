@@ -0,0 +1,325 @@
+import { ErrorCode, McpError } from "npm:@modelcontextprotocol/sdk/types.js";
+import { readConfig } from "./config.ts";
+import {
+  authorizeCommand,
+  formatCommandLine,
+  loadExecutionConfig,
+  resolveProcessContext,
+  resolveProcessOptions,
+  STREAM_CLOSE_GRACE_MS,
+} from "./command-executor.ts";
+import type { CommandExecutionOptions } from "./command-executor.ts";
+import { killProcessTree } from "./process-tree.ts";
+import { validatePath } from "./path-validator.ts";
+import type { PathAccess } from "./path-validator.ts";
+
+// 終了したジョブを保持しておく最大数
+const MAX_FINISHED_JOBS = 50;
+
+/**
+ * ジョブの状態
+ */
+export type JobState = "running" | "exited" | "killed" | "timed_out";
+
+/**
+ * ジョブの状態を表すインターフェース
+ */
+export interface JobStatus {
+  jobId: string;
+  commandLine: string;
+  state: JobState;
+  pid: number;
+  startedAt: string;
+  durationMs: number;
+  exitCode: number | null;
+  signal: string | null;
+}
+
+/**
+ * カーソル以降のジョブの出力を表すインターフェース
+ */
+export interface JobOutput {
+  jobId: string;
+  state: JobState;
+  stdout: string;
+  stderr: string;
+  // 次回の取得で指定するカーソル
+  nextCursor: number;
+  // 保持上限を超えて破棄されたため返せなかった出力がある場合はtrue
+  dropped: boolean;
+}
+
+/**
+ * ジョブ起動のオプションを表すインターフェース
+ */
+export type JobStartOptions = Omit<CommandExecutionOptions, "executeCommandFn">;
+
+/**
+ * 出力の断片
+ */
+interface OutputChunk {
+  seq: number;
+  stream: "stdout" | "stderr";
+  text: string;
+  bytes: number;
+}
+
+/**
+ * バックグラウンドで実行中または終了したジョブ
+ */
+class Job {
+  private readonly chunks: OutputChunk[] = [];
+  private nextSeq = 0;
+  private bufferedBytes = 0;
+  private readonly startedAt = Date.now();
+  private finishedAt?: number;
+  private readonly abortCapture = new AbortController();
+  state: JobState = "running";
+  exitCode: number | null = null;
+  signal: string | null = null;
+  readonly done: Promise<void>;
+
+  constructor(
+    readonly id: string,
+    readonly commandLine: string,
+    private readonly child: Deno.ChildProcess,
+    private readonly maxBufferBytes: number
+  ) {
+    this.done = Promise.all([
+      this.capture(child.stdout, "stdout"),
+      this.capture(child.stderr, "stderr"),
+      child.status,
+    ]).then(([, , status]) => {
+      this.exitCode = status.code;
+      this.signal = status.signal;
+      this.finishedAt = Date.now();
+      if (this.state === "running") {
+        this.state = "exited";
+      }
+    });
+  }
+
+  get pid(): number {
+    return this.child.pid;
+  }
+
+  /**
+   * ストリームの出力を保持上限の範囲で蓄積する
+   */
+  private async capture(stream: ReadableStream<Uint8Array>, name: OutputChunk["stream"]): Promise<void> {
+    const reader = stream.getReader();
+    const onAbort = () => reader.cancel().catch(() => {});
+    this.abortCapture.signal.addEventListener("abort", onAbort);
+    const decoder = new TextDecoder();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        this.append(name, decoder.decode(value, { stream: true }), value.length);
+      }
+    } finally {
+      this.abortCapture.signal.removeEventListener("abort", onAbort);
+      reader.releaseLock();
+    }
+    this.append(name, decoder.decode(), 0);
+  }
+
+  /**
+   * 出力の読み取りを打ち切る (終了させたプロセスの子孫が出力ストリームを開いたままの場合に使う)
+   */
+  stopCapture(): void {
+    this.abortCapture.abort();
+  }
+
+  /**
+   * ジョブの終了を最大timeoutMsミリ秒待ち、終了した場合はtrueを返す
+   */
+  async waitDone(timeoutMs: number): Promise<boolean> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+    try {
+      return await Promise.race([this.done.then(() => true), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private append(stream: OutputChunk["stream"], text: string, bytes: number): void {
+    if (text.length === 0) {
+      return;
+    }
+    this.chunks.push({ seq: this.nextSeq++, stream, text, bytes });
+    this.bufferedBytes += bytes;
+    // 古い出力から破棄する
+    while (this.bufferedBytes > this.maxBufferBytes && this.chunks.length > 1) {
+      this.bufferedBytes -= this.chunks.shift()!.bytes;
+    }
+  }
+
+  /**
+   * カーソル以降の出力を返す
+   */
+  readSince(cursor: number): JobOutput {
+    const available = this.chunks.filter((chunk) => chunk.seq >= cursor);
+    const firstSeq = this.chunks.length > 0 ? this.chunks[0].seq : this.nextSeq;
+    const pick = (stream: OutputChunk["stream"]) =>
+      available.filter((chunk) => chunk.stream === stream).map((chunk) => chunk.text).join("");
+
+    return {
+      jobId: this.id,
+      state: this.state,
+      stdout: pick("stdout"),
+      stderr: pick("stderr"),
+      nextCursor: this.nextSeq,
+      dropped: cursor < firstSeq,
+    };
+  }
+
+  toStatus(): JobStatus {
+    return {
+      jobId: this.id,
+      commandLine: this.commandLine,
+      state: this.state,
+      pid: this.pid,
+      startedAt: new Date(this.startedAt).toISOString(),
+      durationMs: (this.finishedAt ?? Date.now()) - this.startedAt,
+      exitCode: this.exitCode,
+      signal: this.signal,
+    };
+  }
+}
+
+/**
+ * バックグラウンドジョブを管理するクラス
+ */
+export class JobManager {
+  private readonly jobs = new Map<string, Job>();
+  private lastId = 0;
+  private readonly isWindows = Deno.build.os === "windows";
+
+  /**
+   * 許可リストとコマンドルールを適用してジョブを起動する
+   */
+  async start(options: JobStartOptions): Promise<JobStatus> {
+    const {
+      commandName,
+      args = [],
+      allowedCommands = new Set<string>(),
+      readConfigFn = readConfig,
+      validatePathFn = (requestedPath: string, access?: PathAccess) => validatePath(requestedPath, readConfigFn, access),
+    } = options;
+
+    const config = await loadExecutionConfig(readConfigFn);
+    const { command, args: actualArgs } = await authorizeCommand(commandName, args, allowedCommands, readConfigFn, config);
+    const context = await resolveProcessContext(options, config, validatePathFn);
+    const { maxOutputBytes } = resolveProcessOptions(command, options, config);
+
+    let child: Deno.ChildProcess;
+    try {
+      child = new Deno.Command(
+        this.isWindows ? "cmd.exe" : command,
+        {
+          args: this.isWindows ? ["/c", command, ...actualArgs] : actualArgs,
+          cwd: context.cwd,
+          env: context.env,
+          clearEnv: context.env !== undefined,
+          stdin: "null",
+          stdout: "piped",
+          stderr: "piped",
+        }
+      ).spawn();
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `ジョブの起動に失敗しました: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const job = new Job(`job-${++this.lastId}`, formatCommandLine(command, actualArgs), child, maxOutputBytes);
+    this.jobs.set(job.id, job);
+    this.pruneFinishedJobs();
+
+    // ジョブのタイムアウトは明示的に指定された場合のみ設定する
+    if (options.timeoutMs !== undefined) {
+      const timer = setTimeout(() => {
+        if (job.state === "running") {
+          job.state = "timed_out";
+          this.terminate(job).catch((error) => console.error("ジョブの強制終了に失敗:", error));
+        }
+      }, options.timeoutMs);
+      job.done.finally(() => clearTimeout(timer));
+    }
+
+    return job.toStatus();
+  }
+
+  private get(jobId: string): Job {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new McpError(ErrorCode.InvalidParams, `ジョブ '${jobId}' は存在しません`);
+    }
+    return job;
+  }
+
+  status(jobId: string): JobStatus {
+    return this.get(jobId).toStatus();
+  }
+
+  list(): JobStatus[] {
+    return Array.from(this.jobs.values()).map((job) => job.toStatus());
+  }
+
+  output(jobId: string, cursor = 0): JobOutput {
+    return this.get(jobId).readSince(cursor);
+  }
+
+  /**
+   * ジョブをプロセスツリーごと終了させ、終了を待つ
+   *
+   * ツリーの外に出た子孫が出力ストリームを開いたままでも待ち続けないよう、
+   * 猶予を過ぎたら読み取りを打ち切る。
+   */
+  private async terminate(job: Job): Promise<void> {
+    await killProcessTree(job.pid, this.isWindows);
+    if (!await job.waitDone(STREAM_CLOSE_GRACE_MS)) {
+      job.stopCapture();
+      await job.waitDone(STREAM_CLOSE_GRACE_MS);
+    }
+  }
+
+  /**
+   * ジョブを終了させ、終了を待つ
+   */
+  async kill(jobId: string): Promise<JobStatus> {
+    const job = this.get(jobId);
+    if (job.state === "running") {
+      job.state = "killed";
+      await this.terminate(job);
+    }
+    return job.toStatus();
+  }
+
+  /**
+   * 実行中のジョブをすべて終了させる
+   */
+  async killAll(): Promise<void> {
+    const running = Array.from(this.jobs.values()).filter((job) => job.state === "running");
+    await Promise.all(running.map((job) => this.kill(job.id).catch((error) => {
+      console.error(`ジョブ '${job.id}' の終了に失敗:`, error);
+    })));
+  }
+
+  /**
+   * 保持上限を超えた古い終了済みジョブを破棄する
+   */
+  private pruneFinishedJobs(): void {
+    const finished = Array.from(this.jobs.values()).filter((job) => job.state !== "running");
+    for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+      this.jobs.delete(job.id);
+    }
+  }
+}
@@ -5,79 +5,42 @@ import { StdioServerTransport } from "npm:@modelcontextprotocol/sdk/server/stdio
 import {
 	CallToolRequestSchema,
 	ListToolsRequestSchema,
-	ErrorCode,
-	McpError,
+	ResultSchema,
 } from "npm:@modelcontextprotocol/sdk/types.js";
-import * as path from "@std/path"
-import TurndownService from "npm:turndown";
-import { createLLMProcessor } from "./llm/processor-factory.ts";
-import { fileOperationsAPIDefinitions } from "./file-operations.ts";
-import { readConfig, getConfigFilePath } from "./config.ts";
-import type { Config } from "./config.ts";
-import { executeCommand } from "./command-executor.ts";
+import type { OutputListener } from "./command-executor.ts";
+import { configStore } from "./config.ts";
+import { JobManager } from "./job-manager.ts";
+import { ChangeJournal } from "./change-journal.ts";
+import { AuditLog, createAuditEntry } from "./audit-log.ts";
+import { ApprovalManager } from "./approval.ts";
+import type { ApprovalDecision, ApprovalRecord } from "./approval.ts";
+import { ToolRegistry } from "./tool-registry.ts";
+import { utilityTools } from "./utility-tools.ts";
+import { fetchTools } from "./fetch-tools.ts";
+import { fileOperationTools } from "./file-operations.ts";
+import { configTools } from "./config-tools.ts";
+import { commandTools } from "./command-tools.ts";
+import { auditTools } from "./audit-tools.ts";
 
 // Config型とreadConfig関数はconfig.tsに移動しました
-
-// パスの正規化と検証用のユーティリティ関数
-async function validatePath(requestedPath: string): Promise<string> {
-	let config: Config;
-	try {
-		config = await readConfig();
-	} catch (error) {
-		console.error("許可されたディレクトリの読み取りに失敗しました:", error);
-		throw new Error(`許可されたディレクトリの読み取りに失敗しました: ${error}`);
-	}
-	const absolute = path.isAbsolute(requestedPath)
-		? requestedPath
-		: path.resolve(Deno.cwd(), requestedPath);
-
-	const normalized = path.normalize(absolute);
-
-	// 許可されたディレクトリ内かチェック
-	const isAllowed = config.allowedDirectories.some((dir) =>
-		normalized.startsWith(dir),
-	);
-	if (!isAllowed) {
-		throw new Error(
-			`アクセスが拒否されました - パスが許可されたディレクトリの外です: ${absolute}\n許可されたディレクトリ: ${config.allowedDirectories.join(', ')}`,
-		);
-	}
-
-	try {
-		const realPath = await Deno.realPath(absolute);
-		const normalizedReal = path.normalize(realPath);
-		const isRealPathAllowed = config.allowedDirectories.some((dir) =>
-			normalizedReal.startsWith(dir),
-		);
-		if (!isRealPathAllowed) {
-			throw new Error(
-				`アクセスが拒否されました - シンボリックリンクの対象が許可されたディレクトリの外です: ${realPath}\n許可されたディレクトリ: ${config.allowedDirectories.join(', ')}`,
-			);
-		}
-		return realPath;
-	} catch (_error) {
-		// 新規ファイル作成の場合は親ディレクトリをチェック
-		const parentDir = path.dirname(absolute);
-		try {
-			const realParentPath = await Deno.realPath(parentDir);
-			const normalizedParent = path.normalize(realParentPath);
-			const isParentAllowed = config.allowedDirectories.some((dir) =>
-				normalizedParent.startsWith(dir),
-			);
-			if (!isParentAllowed) {
-				throw new Error(
-					`アクセスが拒否されました - 親ディレクトリが許可されたディレクトリの外です: ${parentDir}\n許可されたディレクトリ: ${config.allowedDirectories.join(', ')}`,
-				);
-			}
-			return absolute;
-		} catch {
-			throw new Error(`親ディレクトリが存在しません: ${parentDir}`);
-		}
-	}
-}
+// validatePath関数はpath-validator.tsに移動しました
 
 class MCPCommandServer {
 	private server: Server;
+	private jobs = new JobManager();
+	private changes = new ChangeJournal();
+	private audit = new AuditLog();
+	// ツールを追加する場合は、ToolDefinitionを返すモジュールを作成してここに登録する
+	private tools = new ToolRegistry([
+		...utilityTools,
+		...fetchTools,
+		...fileOperationTools,
+		...configTools,
+		...commandTools,
+		...auditTools,
+	]);
+	// 承認ルールに一致する呼び出しは、ユーザーが承認してから実行する
+	private approvals = new ApprovalManager(this.tools, (message, options) => this.requestApproval(message, options));
 
 	constructor() {
 		this.server = new Server(
@@ -87,9 +50,7 @@ class MCPCommandServer {
 			},
 			{
 				capabilities: {
-					tools: {
-						...Object.fromEntries(fileOperationsAPIDefinitions.map((def) => [def.name, def])),
-					},
+					tools: {},
 				},
 			},
 		);
@@ -102,753 +63,106 @@ class MCPCommandServer {
 	private setupToolHandlers() {
 		// ツール一覧を提供
 		this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-			tools: [
-				{
-					name: "get_path",
-					description: "システムのPATH環境変数を表示します",
-					inputSchema: {
-						type: "object",
-						properties: {},
-						required: [],
-					},
-				},
-				{
-					name: "echo",
-					description: "入力された文字列をそのまま返します",
-					inputSchema: {
-						type: "object",
-						properties: {
-							text: {
-								type: "string",
-								description: "エコーする文字列",
-							},
-						},
-						required: ["text"],
-					},
-				},
-				{
-					name: "fetch",
-					description: "指定されたURLからコンテンツを取得します",
-					inputSchema: {
-						type: "object",
-						properties: {
-							url: {
-								type: "string",
-								description: "取得するコンテンツのURL",
-							},
-						},
-						required: ["url"],
-					},
-				},
-				{
-					name: "read_file",
-					description: "ファイルの内容を読み取ります",
-					inputSchema: {
-						type: "object",
-						properties: {
-							path: {
-								type: "string",
-								description: "読み取るファイルのパス",
-							},
-							range: {
-								type: "string",
-								description: "読み取るファイルの範囲(n:m/:m/n:)",
-							},
-						},
-						required: ["path"],
-					},
-				},
-				{
-					name: "write_file",
-					description: "ファイルに内容を書き込みます",
-					inputSchema: {
-						type: "object",
-						properties: {
-							path: {
-								type: "string",
-								description: "書き込み先のファイルパス",
-							},
-							content: {
-								type: "string",
-								description: "書き込む内容",
-							},
-						},
-						required: ["path", "content"],
-					},
-				},
-				{
-					name: "append_file",
-					description: "ファイルに内容を追加します",
-					inputSchema: {
-						type: "object",
-						properties: {
-							path: {
-								type: "string",
-								description: "追加先のファイルパス",
-							},
-							content: {
-								type: "string",
-								description: "追加する内容",
-							},
-						},
-						required: ["path", "content"],
-					},
-				},
-				{
-					name: "list_directory",
-					description: "ディレクトリの内容を一覧表示します",
-					inputSchema: {
-						type: "object",
-						properties: {
-							path: {
-								type: "string",
-								description: "一覧表示するディレクトリのパス",
-							},
-						},
-						required: ["path"],
-					},
-				},
-				{
-					name: "create_directory",
-					description: "新しいディレクトリを作成します",
-					inputSchema: {
-						type: "object",
-						properties: {
-							path: {
-								type: "string",
-								description: "作成するディレクトリのパス",
-							},
-							recursive: {
-								type: "boolean",
-								description: "親ディレクトリも必要に応じて作成するかどうか",
-								default: false
-							}
-						},
-						required: ["path"],
-					},
-				},
-				{
-					name: "remove_directory",
-					description: "ディレクトリを削除します",
-					inputSchema: {
-						type: "object",
-						properties: {
-							path: {
-								type: "string",
-								description: "削除するディレクトリのパス",
-							},
-							recursive: {
-								type: "boolean",
-								description: "ディレクトリが空でない場合も再帰的に削除するかどうか",
-								default: false
-							}
-						},
-						required: ["path"],
-					},
-				},
-				{
-					name: "rename_directory",
-					description: "ディレクトリの名前を変更または移動します",
-					inputSchema: {
-						type: "object",
-						properties: {
-							sourcePath: {
-								type: "string",
-								description: "名前変更または移動元のディレクトリパス",
-							},
-							destinationPath: {
-								type: "string",
-								description: "名前変更または移動先のディレクトリパス",
-							}
-						},
-						required: ["sourcePath", "destinationPath"],
-					},
-				},
-				{
-					name: "open_config_file",
-					description: "設定ファイルを開きます",
-					inputSchema: {
-						type: "object",
-						properties: {}, // no arguments
-					},
-				},
-				{
-					name: "execute_command",
-					description: "許可されたシェルコマンドを実行します",
-					inputSchema: {
-						type: "object",
-						properties: {
-							commandName: {
-								type: "string",
-								description: "実行するコマンド名",
-							},
-							args: {
-								type: "array",
-								items: {
-									type: "string"
-								},
-								description: "コマンドの引数",
-								default: []
-							}
-						},
-						required: ["commandName"],
-					},
-				},
-				{
-					name: "list_allowed_commands",
-					description: "実行可能なコマンドの一覧を返します",
-					inputSchema: {
-						type: "object",
-						properties: {}, // no arguments
-					},
-				},
-			],
+			tools: this.tools.list(),
 		}));
 
 		// ツールの実装
-		const ALLOWED_COMMANDS = new Set([
-			// Windows/DOSコマンド
-			'dir', 'copy', 'xcopy', 'robocopy', 'move', 'del', 'rd', 'md', 'type', 'more',
-			'find', 'findstr', 'sort', 'fc', 'comp', 'tree', 'where', 'whoami', 'tasklist',
-			'taskkill', 'systeminfo', 'hostname', 'ipconfig', 'netstat', 'net', 'ping',
-			'tracert', 'nslookup', 'pathping', 'route', 'arp', 'attrib', 'chcp', 'cipher',
-			'clip', 'compact', 'expand', 'forfiles', 'fsutil', 'ftype', 'reg', 'sc',
-			'schtasks', 'shutdown', 'timeout', 'title', 'ver', 'vol', 'wmic', 'powershell',
-			'pwsh', 'cmd', // シェル関連
-			// shell
-			'bash', 'sh', 'zsh', 'fish', 'ksh', 'csh', 'tcsh', 'dash', 'ash',
-			// GNU Core Utils & BusyBox基本コマンド
-			'ls', 'cp', 'mv', 'rm', 'mkdir', 'rmdir', 'cat', 'head', 'tail', 'grep', 'find',
-			'sort', 'uniq', 'wc', 'tr', 'cut', 'paste', 'join', 'split', 'basename',
-			'dirname', 'pwd', 'date', 'touch', 'chmod', 'chown', 'df', 'du', 'ln', 'tar',
-			'gzip', 'gunzip', 'bzip2', 'bunzip2', 'xz', 'unxz', 'zip', 'unzip',
-			// テキスト処理ツール
-			'awk', 'gawk', 'mawk', 'nawk',
-			'sed', 'gsed', 'ssed', // sedとその実装
-			'jq', 'yq', 'fx', // JSONプロセッサ
-			'csvkit', 'xsv', 'tsv-utils', // CSV/TSV処理
-			'pandoc', 'asciidoctor', // ドキュメント変換
-			// データベースクライアント
-			'sqlite3', 'sqlite', // SQLite
-			'mysql', 'mysqldump', 'mysqlimport', // MySQL
-			'psql', 'pg_dump', 'pg_restore', // PostgreSQL
-			'mongosh', 'mongoexport', 'mongoimport', // MongoDB
-			'redis-cli', // Redis
-			'duckdb', // DuckDB
-			'influx', // InfluxDB
-			// 開発ツール - コンパイラ/インタプリタ
-			'gcc', 'g++', 'clang', 'clang++', 'rustc', 'python', 'python3', 'node', 'deno',
-			'java', 'javac', 'kotlin', 'kotlinc', 'go', 'gofmt', 'ruby', 'perl', 'php',
-			'ghc', 'stack', 'cabal', // Haskell
-			'scala', 'scalac', // Scala
-			'dotnet', // .NET
-			'tsc', 'esbuild', 'swc', // TypeScript/JavaScript
-			// パッケージマネージャ
-			'npm', 'yarn', 'pnpm', 'pip', 'pip3', 'cargo', 'gem', 'composer', 'maven',
-			'gradle', 'sbt', 'nuget', 'vcpkg', 'conan', // 追加のパッケージマネージャ
-			// ビルド/タスクツール
-			'make', 'cmake', 'ninja', 'rake', 'grunt', 'gulp', 'webpack', 'rollup', 'vite',
-			'bazel', 'buck', // ビルドシステム
-			// テストツール
-			'jest', 'pytest', 'rspec', 'mocha', 'karma', 'cypress', 'playwright',
-			// 開発支援ツール
-			'git', 'gh', // バージョン管理
-			'curl', 'wget', 'httpie', // HTTP クライアント
-			'docker', 'podman', // コンテナ
-			'terraform', 'ansible', // インフラ
-			'protoc', 'grpcurl', // プロトコル
-			'shellcheck', 'shfmt', // シェルスクリプト
-			'prettier', 'eslint', 'stylelint', // フォーマッタ/リンタ
-			'graphql', 'hasura', // GraphQL
-		]);
-
-		this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+		// すべての呼び出しを結果とともに監査ログに記録する
+		this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+			const { name, arguments: args = {} } = request.params;
+			const startedAt = Date.now();
+			// 承認ルールに一致した場合は、確認結果も同じエントリに記録する
+			let approval: ApprovalRecord | undefined;
 			try {
-				switch (request.params.name) {
-					case "get_path": {
-						const path = Deno.env.get("PATH");
-						return {
-							content: [
-								{
-									type: "text",
-									text: path || "PATH環境変数が設定されていません",
-								},
-							],
-						};
-					}
-
-					case "echo": {
-						const { text } = request.params.arguments as { text: string };
-						return {
-							content: [
-								{
-									type: "text",
-									text: text,
-								},
-							],
-						};
-					}
-
-					case "fetch": {
-						const { url } = request.params.arguments as { url: string };
-						try {
-							const response = await fetch(url);
-							if (!response.ok) {
-								throw new McpError(
-									ErrorCode.InternalError,
-									`取得に失敗しました: ${response.status} ${response.statusText}`,
-								);
-							}
-							const html = await response.text();
-							// HTMLをMarkdownに変換
-							const tds = new TurndownService({
-								keepReplacement: (content: string, node: TurndownService.Node) => node.nodeName === 'IMG' ? content : '', // 画像以外の属性を除去
-								blankReplacement: (content: string, node: TurndownService.Node) => {
-								  return node.isBlock ? '\n\n' : ''
-								}
-							  });
-							  tds.addRule('removeStyles', {
-								filter: ['style', 'link'],
-								replacement: () => ''
-							  });
-							  
-							  tds.addRule('cleanAttributes', {
-								filter: ['span', 'div'],
-								replacement: (content: string) => content
-							  });
-							  tds.addRule('removeInlineStyles', {
-								filter: (node: TurndownService.Node) => {
-								  return node.nodeType === 1 && node.hasAttribute('style');
-								},
-								replacement: (content: string, node: TurndownService.Node) => {
-								  node.removeAttribute('style');
-								  return content;
-								}
-							  });
-							  
-							const markdown = tds.turndown(html);
-							
-
-;
-							// LLM処理の設定を読み込む
-							const config = await readConfig();
-							if (config.llm?.enabled) {
-								const processor = createLLMProcessor(config.llm);
-
-								const result = await processor.process(markdown, config.llm);
-								return {
-									content: [
-										{
-											type: "text",
-											text: result.processed,
-										},
-									],
-								};
-							}
-
-							// LLMが無効な場合は元のMarkdownを返す
-							return {
-								content: [
-									{
-										type: "text",
-										text: markdown,
-									},
-								],
-							};
-						} catch (error) {
-							if (error instanceof McpError) {
-								throw error;
-							}
-							throw new McpError(
-								ErrorCode.InternalError,
-								`取得エラー: ${error instanceof Error ? error.message : String(error)}`,
-							);
-						}
-					}
-
-					case "read_file": {
-						const { path: filePath, range: rangeStr } = request.params.arguments as {
-							path: string;
-							range: string;
-						};
-						const validPath = await validatePath(filePath);
-						const content = await Deno.readTextFile(validPath);
-						const lines = content.split("\n");
-						const range = rangeStr || "0:0";
-						const [start, end] = range.split(":").map(Number);
-						let selectedLines = "";
-						if (!end) {
-							selectedLines = lines.slice(start).join("\n");
-						} else {
-							selectedLines = lines.slice(start, end + 1).join("\n");
-						}
-
-						return {
-							content: [
-								{
-									type: "text",
-									text: selectedLines,
-								},
-							],
-						};
-					}
-
-					case "write_file": {
-						const { path: filePath, content } = request.params.arguments as {
-							path: string;
-							content: string;
-						};
-						const validPath = await validatePath(filePath);
-						await Deno.writeTextFile(validPath, content);
-						return {
-							content: [
-								{
-									type: "text",
-									text: `ファイルの書き込みに成功しました: ${filePath}`,
-								},
-							],
-						};
-					}
-
-					case "append_file": {
-						const { path: filePath, content } = request.params.arguments as {
-							path: string;
-							content: string;
-						};
-						const validPath = await validatePath(filePath);
-						await Deno.writeTextFile(validPath, content, { append: true });
-						return {
-							content: [
-								{
-									type: "text",
-									text: `ファイルの追加に成功しました: ${filePath}`,
-								},
-							],
-						};
-					}
-
-					case "list_directory": {
-						const { path: dirPath } = request.params.arguments as {
-							path: string;
-						};
-						const validPath = await validatePath(dirPath);
-						const entries = [];
-						for await (const entry of Deno.readDir(validPath)) {
-							entries.push(
-								`[${entry.isDirectory ? "DIR" : "FILE"}] ${entry.name}`,
-							);
-						}
-						return {
-							content: [
-								{
-									type: "text",
-									text: entries.join("\n"),
-								},
-							],
-						};
-					}
-
-					case "create_directory": {
-						const { path: dirPath, recursive = false } = request.params.arguments as {
-							path: string;
-							recursive?: boolean;
-						};
-						const validPath = await validatePath(dirPath);
-						try {
-							await Deno.mkdir(validPath, { recursive });
-							return {
-								content: [
-									{
-										type: "text",
-										text: `ディレクトリ '${dirPath}' を作成しました`,
-									},
-								],
-							};
-						} catch (error) {
-							throw new McpError(
-								ErrorCode.InternalError,
-								`ディレクトリ作成エラー: ${error instanceof Error ? error.message : String(error)}`
-							);
-						}
-					}
-
-					case "remove_directory": {
-						const { path: dirPath, recursive = false } = request.params.arguments as {
-							path: string;
-							recursive?: boolean;
-						};
-						const validPath = await validatePath(dirPath);
-						try {
-							await Deno.remove(validPath, { recursive });
-							return {
-								content: [
-									{
-										type: "text",
-										text: `ディレクトリ '${dirPath}' を削除しました`,
-									},
-								],
-							};
-						} catch (error) {
-							throw new McpError(
-								ErrorCode.InternalError,
-								`ディレクトリ削除エラー: ${error instanceof Error ? error.message : String(error)}`
-							);
-						}
-					}
-
-					case "rename_directory": {
-						const { sourcePath, destinationPath } = request.params.arguments as {
-							sourcePath: string;
-							destinationPath: string;
-						};
-						const validSourcePath = await validatePath(sourcePath);
-						const validDestPath = await validatePath(destinationPath);
-						try {
-							await Deno.rename(validSourcePath, validDestPath);
-							return {
-								content: [
-									{
-										type: "text",
-										text: `ディレクトリを '${sourcePath}' から '${destinationPath}' に移動/名前変更しました`,
-									},
-								],
-							};
-						} catch (error) {
-							throw new McpError(
-								ErrorCode.InternalError,
-								`ディレクトリ名前変更/移動エラー: ${error instanceof Error ? error.message : String(error)}`
-							);
-						}
-					}
-
-					case "open_config_file": {
-						// windows
-						if (Deno.build.os === "windows") {
-							const command = new Deno.Command("notepad", {args: [getConfigFilePath()]});
-							command.spawn();
-						} else {
-							const command = new Deno.Command("open", {args: [getConfigFilePath()]});
-							command.spawn();
-						}
-						return {
-							content: [
-								{
-									type: "text",
-									text: "設定ファイルを開きます",
-								},
-							],
-						};
-					}
-
-					case "execute_command": {
-						const { commandName, args = [] } = request.params.arguments as { 
-							commandName: string;
-							args?: string[];
-						};
-
-						try {
-							// リファクタリングされた executeCommand 関数を使用
-							const result = await executeCommand({
-								commandName,
-								args,
-								allowedCommands: ALLOWED_COMMANDS
-							});
-
-							return {
-								content: [
-									{
-										type: "text",
-										text: `実行結果:\n${result.output}\nエラー:\n${result.error}`,
-									},
-								],
-							};
-						} catch (error) {
-							if (error instanceof McpError) {
-								throw error;
-							}
-							throw new McpError(
-								ErrorCode.InternalError,
-								`コマンド実行エラー: ${error instanceof Error ? error.message : String(error)}`
-							);
-						}
-					}
-
-					case "list_allowed_commands": {
-						// カテゴリごとにコマンドを整理
-						const commandsByCategory = new Map<string, string[]>();
-						let currentCategory = "";
-						
-						// デフォルトのコマンドを追加
-						const commandsArray = Array.from(ALLOWED_COMMANDS);
-						for (const cmd of commandsArray) {
-							if (cmd.startsWith("//")) {
-								currentCategory = cmd.substring(2).trim();
-								commandsByCategory.set(currentCategory, []);
-							} else {
-								const category = commandsByCategory.get(currentCategory) || [];
-								category.push(cmd);
-								commandsByCategory.set(currentCategory, category);
-							}
-						}
-
-						// 設定ファイルからの追加コマンドを読み込む
-						try {
-							const config = await readConfig();
-							if (config.allowedCommands) {
-								for (const [category, commands] of Object.entries(config.allowedCommands)) {
-									const existingCommands = commandsByCategory.get(category) || [];
-									commandsByCategory.set(category, [...new Set([...existingCommands, ...commands])]);
-								}
-							}
-						} catch (error) {
-							console.error("追加コマンドの読み込みに失敗:", error);
-						}
-
-						// 整形された出力を生成
-						const output = Array.from(commandsByCategory.entries())
-							.map(([category, commands]) => {
-								const sortedCommands = Array.from(new Set(commands)).sort();
-								return `${category}:\n  ${sortedCommands.join(", ")}`;
-							})
-							.join("\n\n");
-
-						return {
-							content: [
-								{
-									type: "text",
-									text: output,
-								},
-							],
-						};
-					}
-
-					case "copy_file": {
-						const { sourcePath, destinationPath } = request.params.arguments as {
-							sourcePath: string;
-							destinationPath: string;
-						};
-						const validSourcePath = await validatePath(sourcePath);
-						const validDestPath = await validatePath(destinationPath);
-						try {
-							const content = await Deno.readFile(validSourcePath);
-							await Deno.writeFile(validDestPath, content);
-							return {
-								content: [
-									{
-										type: "text",
-										text: `ファイルを '${sourcePath}' から '${destinationPath}' にコピーしました`,
-									},
-								],
-							};
-						} catch (error) {
-							throw new McpError(
-								ErrorCode.InternalError,
-								`ファイルコピーエラー: ${error instanceof Error ? error.message : String(error)}`
-							);
-						}
-					}
-
-					case "move_file": {
-						const { sourcePath, destinationPath } = request.params.arguments as {
-							sourcePath: string;
-							destinationPath: string;
-						};
-						const validSourcePath = await validatePath(sourcePath);
-						const validDestPath = await validatePath(destinationPath);
-						try {
-							await Deno.rename(validSourcePath, validDestPath);
-							return {
-								content: [
-									{
-										type: "text",
-										text: `ファイルを '${sourcePath}' から '${destinationPath}' に移動/名前変更しました`,
-									},
-								],
-							};
-						} catch (error) {
-							throw new McpError(
-								ErrorCode.InternalError,
-								`ファイル移動/名前変更エラー: ${error instanceof Error ? error.message : String(error)}`
-							);
-						}
-					}
-
-					case "delete_file": {
-						const { path: filePath } = request.params.arguments as {
-							path: string;
-						};
-						const validPath = await validatePath(filePath);
-						try {
-							await Deno.remove(validPath);
-							return {
-								content: [
-									{
-										type: "text",
-										text: `ファイル '${filePath}' を削除しました`,
-									},
-								],
-							};
-						} catch (error) {
-							throw new McpError(
-								ErrorCode.InternalError,
-								`ファイル削除エラー: ${error instanceof Error ? error.message : String(error)}`
-							);
-						}
-					}
-
-					case "file_exists": {
-						const { path: filePath } = request.params.arguments as {
-							path: string;
-						};
-						const validPath = await validatePath(filePath);
-						try {
-							const stat = await Deno.stat(validPath);
-							return {
-								content: [
-									{
-										type: "text",
-										text: `ファイル '${filePath}' は${stat.isFile ? "存在します" : "ファイルではありません"}`,
-									},
-								],
-							};
-						} catch (error) {
-							if (error instanceof Deno.errors.NotFound) {
-								return {
-									content: [
-										{
-											type: "text",
-											text: `ファイル '${filePath}' は存在しません`,
-										},
-									],
-								};
-							}
-							throw new McpError(
-								ErrorCode.InternalError,
-								`ファイル存在チェックエラー: ${error instanceof Error ? error.message : String(error)}`
-							);
-						}
-					}
-
-					default:
-						throw new McpError(
-							ErrorCode.MethodNotFound,
-							`不明なツール: ${request.params.name}`,
-						);
-				}
+				const result = await this.approvals.call(name, args, {
+					jobs: this.jobs,
+					changes: this.changes,
+					audit: this.audit,
+					signal: extra.signal,
+					// クライアントがprogressTokenを指定した場合は出力を進捗通知として逐次送る
+					onOutput: this.createProgressNotifier(request.params._meta?.progressToken),
+				}, (record) => {
+					approval = record;
+				});
+				await this.audit.record(createAuditEntry(name, args, startedAt, { result }, approval));
+				return result;
 			} catch (error) {
-				if (error instanceof McpError) {
-					throw error;
-				}
-				throw new McpError(
-					ErrorCode.InternalError,
-					`エラー: ${error instanceof Error ? error.message : String(error)}`,
-				);
+				await this.audit.record(createAuditEntry(name, args, startedAt, { error }, approval));
+				throw error;
 			}
 		});
 	}
 
+	// クライアントがelicitationに対応している場合は、操作の承認をユーザーに求める
+	private async requestApproval(
+		message: string,
+		options: { signal?: AbortSignal; timeoutMs: number },
+	): Promise<ApprovalDecision | undefined> {
+		const capabilities = this.server.getClientCapabilities() as { elicitation?: object } | undefined;
+		if (capabilities?.elicitation === undefined) {
+			return undefined;
+		}
+		const result = await this.server.request(
+			{
+				method: "elicitation/create",
+				params: {
+					message,
+					requestedSchema: { type: "object", properties: {} },
+				},
+			},
+			ResultSchema,
+			{ signal: options.signal, timeout: options.timeoutMs },
+		);
+		const action = (result as { action?: unknown }).action;
+		return action === "accept" || action === "decline" || action === "cancel" ? action : undefined;
+	}
+
+	// 出力の断片をMCPの進捗通知として送る関数を作る
+	private createProgressNotifier(progressToken?: string | number): OutputListener | undefined {
+		if (progressToken === undefined) {
+			return undefined;
+		}
+		let progress = 0;
+		return (stream, text) => {
+			progress += text.length;
+			this.server.notification({
+				method: "notifications/progress",
+				params: {
+					progressToken,
+					progress,
+					message: `[${stream}] ${text}`,
+				},
+			}).catch((error) => console.error("進捗通知の送信に失敗:", error));
+		};
+	}
+
+	// サーバーの終了時に実行中のジョブを終了させる
+	private setupShutdownHandlers() {
+		const shutdown = async () => {
+			await this.jobs.killAll();
+			await this.changes.dispose();
+			configStore.close();
+			Deno.exit(0);
+		};
+		this.server.onclose = () => {
+			shutdown().catch(console.error);
+		};
+
+		const signals: Deno.Signal[] = Deno.build.os === "windows"
+			? ["SIGINT", "SIGBREAK"]
+			: ["SIGINT", "SIGTERM", "SIGHUP"];
+		for (const signal of signals) {
+			Deno.addSignalListener(signal, () => {
+				shutdown().catch(console.error);
+			});
+		}
+	}
+
 	async run() {
 		const transport = new StdioServerTransport();
+		this.setupShutdownHandlers();
+		// 設定ファイルを編集した場合はサーバーを再起動せずに反映する
+		configStore.watch();
 		await this.server.connect(transport);
 		console.error("Echo MCP server running on stdio");
 	}
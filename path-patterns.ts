@@ -0,0 +1,96 @@
+/**
+ * gitignore形式のパターン
+ */
+interface CompiledPattern {
+  source: string;
+  regex: RegExp;
+  // パターンに「/」を含む場合は基準ディレクトリからの相対パス全体と照合する
+  anchored: boolean;
+  negated: boolean;
+}
+
+/**
+ * グロブを正規表現に変換する
+ *
+ * 「*」「?」はパスの区切りをまたがず、「**」は任意の階層に一致する。
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  let i = 0;
+  while (i < glob.length) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      if (glob[i + 2] === "/") {
+        // 「**/」は0個以上のディレクトリに一致する
+        source += "(?:.*/)?";
+        i += 3;
+      } else {
+        source += ".*";
+        i += 2;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+      i++;
+    } else if (char === "?") {
+      source += "[^/]";
+      i++;
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 2);
+      if (end === -1) {
+        source += "\\[";
+        i++;
+      } else {
+        const body = glob.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\");
+        source += `[${body}]`;
+        i = end + 1;
+      }
+    } else if (char === "\\" && i + 1 < glob.length) {
+      source += glob[i + 1].replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+      i += 2;
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+      i++;
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * gitignore形式のパターンをコンパイルする
+ *
+ * 「!」で始まるパターンは直前までのパターンによる拒否を取り消す。末尾の「/」は無視する。
+ */
+export function compilePathPatterns(patterns: string[]): CompiledPattern[] {
+  return patterns
+    .filter((pattern) => pattern.trim().length > 0 && !pattern.startsWith("#"))
+    .map((source) => {
+      const negated = source.startsWith("!");
+      let glob = (negated ? source.slice(1) : source).replace(/\/+$/, "");
+      const anchored = glob.includes("/");
+      glob = glob.replace(/^\//, "");
+      return { source, regex: globToRegExp(glob), anchored, negated };
+    });
+}
+
+/**
+ * 基準ディレクトリからの相対パスがパターンに一致するか判定し、拒否する場合は一致したパターンを返す
+ *
+ * gitignoreと同様に、拒否されたディレクトリの配下はすべて拒否する。
+ */
+export function matchPathPatterns(relativePath: string, patterns: CompiledPattern[]): string | undefined {
+  const segments = relativePath.replace(/\\/g, "/").split("/").filter((segment) => segment.length > 0 && segment !== ".");
+  for (let depth = 1; depth <= segments.length; depth++) {
+    const prefix = segments.slice(0, depth).join("/");
+    const name = segments[depth - 1];
+    let matched: CompiledPattern | undefined;
+    for (const pattern of patterns) {
+      if (pattern.regex.test(pattern.anchored ? prefix : name)) {
+        matched = pattern;
+      }
+    }
+    if (matched !== undefined && !matched.negated) {
+      return matched.source;
+    }
+  }
+  return undefined;
+}
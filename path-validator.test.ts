@@ -0,0 +1,208 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import * as path from "@std/path";
+import { isPathWithin, validateDescendantModes, validatePath } from "./path-validator.ts";
+import { configStore } from "./config.ts";
+import { compilePathPatterns, matchPathPatterns } from "./path-patterns.ts";
+import type { Config } from "./config.ts";
+
+// 検証に失敗した場合のエラーメッセージを返す
+async function rejectionMessage(promise: Promise<unknown>): Promise<string | undefined> {
+  try {
+    await promise;
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+Deno.test("isPathWithin - パスの区切りごとに包含関係を判定する", () => {
+  assertEquals(isPathWithin("/home/me/proj", "/home/me/proj"), true);
+  assertEquals(isPathWithin("/home/me/proj", "/home/me/proj/src/main.ts"), true);
+  assertEquals(isPathWithin("/home/me/proj", "/home/me/project-secrets"), false);
+  assertEquals(isPathWithin("/home/me/proj", "/home/me/proj/../other"), false);
+  assertEquals(isPathWithin("/home/me/proj", "/home/me/proj/..foo"), true);
+});
+
+Deno.test({
+  name: "validatePath - 前方一致するだけの兄弟ディレクトリやシンボリックリンクの外側へのアクセスを拒否する",
+  ignore: Deno.build.os === "windows",
+  fn: async () => {
+    const root = await Deno.realPath(await Deno.makeTempDir());
+    try {
+      await Deno.mkdir(`${root}/proj`);
+      await Deno.mkdir(`${root}/project-secrets`);
+      await Deno.writeTextFile(`${root}/project-secrets/key`, "secret");
+      await Deno.symlink(`${root}/project-secrets`, `${root}/proj/link`);
+      await Deno.symlink(`${root}/project-secrets/missing`, `${root}/proj/dangling`);
+      const readConfigFn = () => Promise.resolve<Config>({ allowedDirectories: [`${root}/proj`] });
+
+      assertEquals(await validatePath(`${root}/proj/new/file.txt`, readConfigFn), `${root}/proj/new/file.txt`);
+      assertEquals(
+        (await rejectionMessage(validatePath(`${root}/project-secrets/key`, readConfigFn)))?.includes("許可されたディレクトリの外"),
+        true,
+      );
+      assertEquals(
+        (await rejectionMessage(validatePath(`${root}/proj/link/key`, readConfigFn)))?.includes("シンボリックリンク"),
+        true,
+      );
+      assertEquals(
+        (await rejectionMessage(validatePath(`${root}/proj/dangling`, readConfigFn, "write")))?.includes("シンボリックリンク"),
+        true,
+      );
+    } finally {
+      await Deno.remove(root, { recursive: true });
+    }
+  },
+});
+
+Deno.test({
+  name: "validatePath - ディレクトリモードに応じて書き込みと削除を制限する",
+  ignore: Deno.build.os === "windows",
+  fn: async () => {
+    const root = await Deno.realPath(await Deno.makeTempDir());
+    try {
+      await Deno.mkdir(`${root}/reference/scratch`, { recursive: true });
+      await Deno.mkdir(`${root}/keep`);
+      const readConfigFn = () => Promise.resolve<Config>({
+        allowedDirectories: [root],
+        directoryModes: {
+          [`${root}/reference`]: "read-only",
+          [`${root}/reference/scratch`]: "read-write",
+          [`${root}/keep`]: "no-delete",
+        },
+      });
+
+      assertEquals(await validatePath(`${root}/reference/a.txt`, readConfigFn, "read"), `${root}/reference/a.txt`);
+      assertEquals(
+        (await rejectionMessage(validatePath(`${root}/reference/a.txt`, readConfigFn, "write")))?.includes("読み取り専用"),
+        true,
+      );
+      assertEquals(await rejectionMessage(validatePath(`${root}/reference/scratch/a.txt`, readConfigFn, "delete")), undefined);
+      assertEquals(await rejectionMessage(validatePath(`${root}/keep/a.txt`, readConfigFn, "write")), undefined);
+      assertEquals(
+        (await rejectionMessage(validatePath(`${root}/keep/a.txt`, readConfigFn, "delete")))?.includes("削除できません"),
+        true,
+      );
+      assertEquals(await rejectionMessage(validatePath(`${root}/other.txt`, readConfigFn, "delete")), undefined);
+    } finally {
+      await Deno.remove(root, { recursive: true });
+    }
+  },
+});
+
+Deno.test("matchPathPatterns - gitignore形式のパターンで拒否するパスを判定する", () => {
+  const patterns = compilePathPatterns([".env", "*.pem", ".git/config", "node_modules/", "!public.pem", "docs/**/*.key"]);
+  assertEquals(matchPathPatterns(".env", patterns), ".env");
+  assertEquals(matchPathPatterns("app/.env", patterns), ".env");
+  assertEquals(matchPathPatterns("app/.env.example", patterns), undefined);
+  assertEquals(matchPathPatterns("certs/server.pem", patterns), "*.pem");
+  assertEquals(matchPathPatterns("certs/public.pem", patterns), undefined);
+  assertEquals(matchPathPatterns(".git/config", patterns), ".git/config");
+  assertEquals(matchPathPatterns("sub/.git/config", patterns), undefined);
+  assertEquals(matchPathPatterns("web/node_modules/pkg/index.js", patterns), "node_modules/");
+  assertEquals(matchPathPatterns("docs/a/b/secret.key", patterns), "docs/**/*.key");
+  assertEquals(matchPathPatterns("src/main.ts", patterns), undefined);
+});
+
+Deno.test({
+  name: "validatePath - 拒否パターンに一致するパスへのアクセスを拒否する",
+  ignore: Deno.build.os === "windows",
+  fn: async () => {
+    const root = await Deno.realPath(await Deno.makeTempDir());
+    try {
+      await Deno.writeTextFile(`${root}/.env`, "TOKEN=secret");
+      await Deno.symlink(`${root}/.env`, `${root}/env-link`);
+      const readConfigFn = () => Promise.resolve<Config>({ allowedDirectories: [root], deniedPatterns: [".env", "node_modules"] });
+
+      assertEquals(
+        (await rejectionMessage(validatePath(`${root}/.env`, readConfigFn)))?.includes("拒否パターン '.env'"),
+        true,
+      );
+      assertEquals(
+        (await rejectionMessage(validatePath(`${root}/env-link`, readConfigFn)))?.includes("拒否パターン '.env'"),
+        true,
+      );
+      assertEquals(
+        (await rejectionMessage(validatePath(`${root}/node_modules/pkg/a.js`, readConfigFn, "write")))?.includes("node_modules"),
+        true,
+      );
+      assertEquals(await validatePath(`${root}/src/main.ts`, readConfigFn), `${root}/src/main.ts`);
+    } finally {
+      await Deno.remove(root, { recursive: true });
+    }
+  },
+});
+
+Deno.test({
+  name: "validatePath - サーバーの設定ファイル・監査ログ・バックアップ領域への書き込みと削除を拒否する",
+  ignore: Deno.build.os === "windows",
+  fn: async () => {
+    const root = await Deno.realPath(await Deno.makeTempDir());
+    try {
+      await Deno.mkdir(`${root}/state`);
+      await Deno.writeTextFile(`${root}/state/audit.jsonl`, "");
+      const configDir = path.dirname(configStore.configFile);
+      const readConfigFn = () => Promise.resolve<Config>({
+        allowedDirectories: [root, configDir],
+        audit: { file: `${root}/state/audit.jsonl` },
+        backup: { directory: `${root}/backup` },
+      });
+      const denied = async (target: string, access: "read" | "write" | "delete") =>
+        (await rejectionMessage(validatePath(target, readConfigFn, access)))?.includes("変更できません");
+
+      assertEquals(await denied(configStore.configFile, "write"), true);
+      assertEquals(await denied(`${root}/state/audit.jsonl`, "write"), true);
+      assertEquals(await denied(`${root}/state/audit.jsonl.1`, "delete"), true);
+      assertEquals(await denied(`${root}/state`, "delete"), true);
+      assertEquals(await denied(`${root}/backup/1-a-file.txt`, "write"), true);
+      // 読み取りと、関係のないファイルへの書き込みは許可する
+      assertEquals(await denied(`${root}/state/audit.jsonl`, "read"), undefined);
+      assertEquals(await denied(`${root}/state/notes.txt`, "write"), undefined);
+    } finally {
+      await Deno.remove(root, { recursive: true });
+    }
+  },
+});
+
+Deno.test({
+  name: "validateDescendantModes - 配下の読み取り専用・削除禁止のディレクトリを削除・上書きさせない",
+  ignore: Deno.build.os === "windows",
+  fn: async () => {
+    const root = await Deno.realPath(await Deno.makeTempDir());
+    try {
+      await Deno.mkdir(`${root}/work/vendor`, { recursive: true });
+      await Deno.mkdir(`${root}/work/logs`);
+      await Deno.mkdir(`${root}/src/vendor`, { recursive: true });
+      await Deno.mkdir(`${root}/other`);
+      const readConfigFn = () =>
+        Promise.resolve<Config>({
+          allowedDirectories: [root],
+          directoryModes: { [`${root}/work/vendor`]: "read-only", [`${root}/work/logs`]: "no-delete" },
+        });
+
+      // remove_directory / move_file の移動元
+      assertEquals(
+        (await rejectionMessage(validateDescendantModes(`${root}/work`, "delete", readConfigFn)))?.includes(
+          "読み取り専用",
+        ),
+        true,
+      );
+      assertEquals(
+        (await rejectionMessage(validateDescendantModes(`${root}/work/logs`, "delete", readConfigFn)))?.includes(
+          "削除できません",
+        ),
+        true,
+      );
+      // copy_file の上書き先 (コピー元に対応するディレクトリがある場合だけ書き込まれる)
+      assertEquals(
+        (await rejectionMessage(validateDescendantModes(`${root}/work`, "write", readConfigFn, `${root}/src`)))
+          ?.includes("読み取り専用"),
+        true,
+      );
+      assertEquals(await validateDescendantModes(`${root}/work`, "write", readConfigFn, `${root}/other`), undefined);
+      assertEquals(await validateDescendantModes(`${root}/other`, "delete", readConfigFn), undefined);
+    } finally {
+      await Deno.remove(root, { recursive: true });
+    }
+  },
+});
@@ -0,0 +1,262 @@
+import * as path from "@std/path";
+import { configStore, readConfig } from "./config.ts";
+import type { Config, DirectoryMode } from "./config.ts";
+import { compilePathPatterns, matchPathPatterns } from "./path-patterns.ts";
+import { getDefaultAuditLogFile } from "./audit-log.ts";
+
+/**
+ * パスに対して行う操作の種類
+ */
+export type PathAccess = "read" | "write" | "delete";
+
+// 各ディレクトリモードで許可される操作
+const MODE_ACCESS: Record<DirectoryMode, PathAccess[]> = {
+  "read-only": ["read"],
+  "no-delete": ["read", "write"],
+  "read-write": ["read", "write", "delete"],
+};
+
+/**
+ * 比較用にパスを正規化する (Windowsでは大文字小文字を区別しない)
+ */
+function toComparable(target: string): string {
+  const normalized = path.normalize(target);
+  return Deno.build.os === "windows" ? normalized.toLowerCase() : normalized;
+}
+
+/**
+ * target が parent 自身またはその配下にあるかをパスの区切りごとに判定する
+ */
+export function isPathWithin(parent: string, target: string): boolean {
+  const relative = path.relative(toComparable(parent), toComparable(target));
+  return relative === "" ||
+    (relative !== ".." && !relative.startsWith(`..${path.SEPARATOR}`) && !path.isAbsolute(relative));
+}
+
+/**
+ * 設定ファイルのディレクトリを実パスに解決する (存在しない場合は正規化したパスを使う)
+ */
+export async function resolveConfiguredDirectory(dir: string): Promise<string> {
+  try {
+    return await Deno.realPath(dir);
+  } catch {
+    return path.normalize(dir);
+  }
+}
+
+/**
+ * パスを実パスに解決する
+ *
+ * 存在しないパスは最も近い既存の祖先ディレクトリの実パスに残りの要素をつなげて解決する。
+ */
+async function resolveRealPath(absolute: string): Promise<string> {
+  const missing: string[] = [];
+  let current = absolute;
+  while (true) {
+    try {
+      const realPath = await Deno.realPath(current);
+      return missing.length > 0 ? path.join(realPath, ...missing.reverse()) : realPath;
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        throw error;
+      }
+      // リンク先が存在しないシンボリックリンクは、作成時にリンク先へ書き込まれるため拒否する
+      const exists = await Deno.lstat(current).then(() => true, () => false);
+      if (exists) {
+        throw new Error(`アクセスが拒否されました - シンボリックリンクの対象が存在しません: ${current}`);
+      }
+      const parent = path.dirname(current);
+      if (parent === current) {
+        throw error;
+      }
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+/**
+ * パスに適用されるディレクトリモードを返す (最も深い設定を優先する)
+ */
+export async function resolveDirectoryMode(
+  target: string,
+  config: Config
+): Promise<{ directory?: string; mode: DirectoryMode }> {
+  let matched: { directory?: string; mode: DirectoryMode } = { mode: "read-write" };
+  for (const [dir, mode] of Object.entries(config.directoryModes || {})) {
+    const directory = await resolveConfiguredDirectory(dir);
+    if (
+      isPathWithin(directory, target) &&
+      (matched.directory === undefined || directory.length > matched.directory.length)
+    ) {
+      matched = { directory, mode };
+    }
+  }
+  return matched;
+}
+
+/**
+ * サーバー自身が管理するパスへの書き込み・削除であれば、そのパスの説明を返す
+ *
+ * 設定ファイルを書き換えると自身の権限を広げたり承認ルールを外したりでき、監査ログやバックアップを
+ * 書き換えると記録を消せてしまうため、ファイル操作のツールからは変更させない。
+ */
+async function findProtectedPath(target: string, access: PathAccess, config: Config): Promise<string | undefined> {
+  if (access === "read") {
+    return undefined;
+  }
+  const resolve = (file: string) => resolveRealPath(path.normalize(file)).catch(() => path.normalize(file));
+  const auditFile = await resolve(config.audit?.file ?? getDefaultAuditLogFile());
+  const protectedPaths = [
+    { label: "設定ファイル", path: await resolve(configStore.configFile) },
+    { label: "監査ログ", path: auditFile },
+  ];
+  if (config.backup?.directory !== undefined) {
+    protectedPaths.push({ label: "バックアップ領域", path: await resolve(config.backup.directory) });
+  }
+
+  for (const { label, path: protectedPath } of protectedPaths) {
+    // 削除は祖先のディレクトリを消す場合も含める
+    if (isPathWithin(protectedPath, target) || (access === "delete" && isPathWithin(target, protectedPath))) {
+      return label;
+    }
+  }
+  // ローテーションした監査ログ (audit.jsonl.1 など)
+  if (
+    toComparable(path.dirname(target)) === toComparable(path.dirname(auditFile)) &&
+    toComparable(path.basename(target)).startsWith(`${toComparable(path.basename(auditFile))}.`)
+  ) {
+    return "監査ログ";
+  }
+  return undefined;
+}
+
+/**
+ * 拒否パターンに一致するかを判定する関数を作る
+ *
+ * パターンは許可されたディレクトリからの相対パスと照合し、一致した場合はそのパターンを返す。
+ */
+export async function createDeniedPathMatcher(config: Config): Promise<(target: string) => string | undefined> {
+  const patterns = compilePathPatterns(config.deniedPatterns || []);
+  if (patterns.length === 0) {
+    return () => undefined;
+  }
+  const baseDirectories = [
+    ...config.allowedDirectories.map((dir) => path.normalize(dir)),
+    ...await Promise.all(config.allowedDirectories.map(resolveConfiguredDirectory)),
+  ];
+  return (target: string) => {
+    for (const dir of baseDirectories) {
+      if (isPathWithin(dir, target)) {
+        const matched = matchPathPatterns(path.relative(dir, target), patterns);
+        if (matched !== undefined) {
+          return matched;
+        }
+      }
+    }
+    return undefined;
+  };
+}
+
+/**
+ * パスを正規化し、許可されたディレクトリ内にあるか検証する
+ *
+ * access にはパスに対して行う操作を指定し、ディレクトリモードで許可されていない場合はエラーにする。
+ */
+export async function validatePath(
+  requestedPath: string,
+  readConfigFn: () => Promise<Config> = readConfig,
+  access: PathAccess = "read"
+): Promise<string> {
+  let config: Config;
+  try {
+    config = await readConfigFn();
+  } catch (error) {
+    console.error("許可されたディレクトリの読み取りに失敗しました:", error);
+    throw new Error(`許可されたディレクトリの読み取りに失敗しました: ${error}`);
+  }
+  const absolute = path.isAbsolute(requestedPath)
+    ? requestedPath
+    : path.resolve(Deno.cwd(), requestedPath);
+
+  const normalized = path.normalize(absolute);
+  const allowedDirectories = await Promise.all(config.allowedDirectories.map(resolveConfiguredDirectory));
+
+  // 許可されたディレクトリ内かチェック
+  const isAllowed = config.allowedDirectories.some((dir, index) =>
+    isPathWithin(dir, normalized) || isPathWithin(allowedDirectories[index], normalized)
+  );
+  if (!isAllowed) {
+    throw new Error(
+      `アクセスが拒否されました - パスが許可されたディレクトリの外です: ${absolute}\n許可されたディレクトリ: ${config.allowedDirectories.join(', ')}`,
+    );
+  }
+
+  // シンボリックリンクをたどった先も許可されたディレクトリ内かチェック
+  const realPath = await resolveRealPath(normalized);
+  if (!allowedDirectories.some((dir) => isPathWithin(dir, realPath))) {
+    throw new Error(
+      `アクセスが拒否されました - シンボリックリンクの対象が許可されたディレクトリの外です: ${realPath}\n許可されたディレクトリ: ${config.allowedDirectories.join(', ')}`,
+    );
+  }
+
+  // 許可されたディレクトリ内でも拒否パターンに一致するパスにはアクセスさせない
+  const matchDeniedPattern = await createDeniedPathMatcher(config);
+  const deniedPattern = matchDeniedPattern(normalized) ?? matchDeniedPattern(realPath);
+  if (deniedPattern !== undefined) {
+    throw new Error(`アクセスが拒否されました - パスが拒否パターン '${deniedPattern}' に一致します: ${absolute}`);
+  }
+
+  const protectedLabel = await findProtectedPath(realPath, access, config);
+  if (protectedLabel !== undefined) {
+    throw new Error(`アクセスが拒否されました - サーバーの${protectedLabel}は変更できません: ${absolute}`);
+  }
+
+  const { directory, mode } = await resolveDirectoryMode(realPath, config);
+  if (!MODE_ACCESS[mode].includes(access)) {
+    throw directoryModeError(directory!, mode, absolute);
+  }
+
+  return realPath;
+}
+
+function directoryModeError(directory: string, mode: DirectoryMode, target: string): Error {
+  return new Error(
+    mode === "read-only"
+      ? `アクセスが拒否されました - '${directory}' は読み取り専用です: ${target}`
+      : `アクセスが拒否されました - '${directory}' では削除できません: ${target}`,
+  );
+}
+
+/**
+ * ディレクトリの配下に access を許可しないディレクトリモードのディレクトリがあればエラーにする
+ *
+ * validatePath は指定したパス自身のモードだけを確認するため、ディレクトリをまとめて削除・移動・コピーする前に使う。
+ * source を指定した場合はコピー・移動先として扱い、source に対応するエントリがあるディレクトリ
+ * (実際に書き込まれるディレクトリ) だけを確認する。
+ */
+export async function validateDescendantModes(
+  target: string,
+  access: PathAccess,
+  readConfigFn: () => Promise<Config> = readConfig,
+  source?: string
+): Promise<void> {
+  const config = await readConfigFn();
+  for (const [dir, mode] of Object.entries(config.directoryModes || {})) {
+    if (MODE_ACCESS[mode].includes(access)) {
+      continue;
+    }
+    const directory = await resolveConfiguredDirectory(dir);
+    if (!isPathWithin(target, directory)) {
+      continue;
+    }
+    // 存在しないディレクトリは削除されず、コピー・移動元に対応するエントリがなければ書き込まれない
+    const affected = source === undefined
+      ? directory
+      : path.join(source, path.relative(toComparable(target), toComparable(directory)));
+    if (!(await Deno.lstat(affected).then(() => true, () => false))) {
+      continue;
+    }
+    throw directoryModeError(directory, mode, target);
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Unix系OSでプロセスの子孫のPIDを列挙する
+ */
+async function listDescendants(pid: number): Promise<number[]> {
+  const { stdout } = await new Deno.Command("ps", {
+    args: ["-A", "-o", "pid=,ppid="],
+    stdin: "null",
+    stdout: "piped",
+    stderr: "null",
+  }).output();
+
+  const children = new Map<number, number[]>();
+  for (const line of new TextDecoder().decode(stdout).split("\n")) {
+    const [childPid, parentPid] = line.trim().split(/\s+/).map(Number);
+    if (!childPid || Number.isNaN(parentPid)) {
+      continue;
+    }
+    children.set(parentPid, [...(children.get(parentPid) || []), childPid]);
+  }
+
+  const descendants: number[] = [];
+  const queue = [pid];
+  while (queue.length > 0) {
+    for (const child of children.get(queue.shift()!) || []) {
+      descendants.push(child);
+      queue.push(child);
+    }
+  }
+  return descendants;
+}
+
+/**
+ * プロセスとその子孫をすべて強制終了する
+ */
+export async function killProcessTree(pid: number, isWindows: boolean): Promise<void> {
+  if (isWindows) {
+    // cmd.exe経由で起動した子プロセスも含めて終了させる
+    await new Deno.Command("taskkill", {
+      args: ["/pid", String(pid), "/T", "/F"],
+      stdin: "null",
+      stdout: "null",
+      stderr: "null",
+    }).output();
+    return;
+  }
+
+  let descendants: number[] = [];
+  try {
+    descendants = await listDescendants(pid);
+  } catch (error) {
+    console.error("子プロセスの列挙に失敗:", error);
+  }
+
+  for (const target of [pid, ...descendants]) {
+    try {
+      Deno.kill(target, "SIGKILL");
+    } catch {
+      // 既に終了しているプロセスは無視する
+    }
+  }
+}
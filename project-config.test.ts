@@ -0,0 +1,52 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import * as path from "@std/path";
+import { narrowConfig } from "./project-config.ts";
+import { resolveAllowedCommands } from "./command-profiles.ts";
+import type { Config } from "./config.ts";
+
+Deno.test("narrowConfig - ユーザーの設定で許可されたディレクトリとモードより広げない", async () => {
+  const root = await Deno.realPath(await Deno.makeTempDir());
+  const project = path.join(root, "project");
+  const outside = path.join(root, "outside");
+  await Deno.mkdir(path.join(project, "docs"), { recursive: true });
+  await Deno.mkdir(outside);
+  try {
+    const user: Config = {
+      allowedDirectories: [project],
+      deniedPatterns: ["*.pem"],
+      directoryModes: { [path.join(project, "docs")]: "read-only" },
+    };
+    const narrowed = await narrowConfig(user, {
+      allowedDirectories: [".", outside],
+      deniedPatterns: [".env"],
+      directoryModes: { ".": "no-delete", "docs": "read-write" },
+    }, project);
+
+    assertEquals(narrowed.allowedDirectories, [project]);
+    assertEquals(narrowed.deniedPatterns, ["*.pem", ".env"]);
+    assertEquals(narrowed.directoryModes, {
+      [project]: "no-delete",
+      [path.join(project, "docs")]: "read-only",
+    });
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("narrowConfig - コマンドと実行の上限を狭める", async () => {
+  const user: Config = {
+    allowedDirectories: [],
+    profiles: { mine: { commands: ["git", "ls", "cat"] } },
+    profile: "mine",
+    execution: { timeoutMs: 60_000 },
+  };
+  const narrowed = await narrowConfig(user, {
+    profile: "full",
+    deniedCommands: ["cat"],
+    execution: { timeoutMs: 120_000, maxOutputBytes: 1024 },
+  }, Deno.cwd());
+
+  // ユーザーの設定で許可されていないコマンドは、プロジェクトのプロファイルに含まれていても許可しない
+  assertEquals([...resolveAllowedCommands(narrowed, new Set())].sort(), ["git", "ls"]);
+  assertEquals(narrowed.execution, { timeoutMs: 60_000, maxOutputBytes: 1024 });
+});
@@ -0,0 +1,83 @@
+import * as path from "@std/path";
+import type { Config, DirectoryMode, ProjectConfig } from "./config.ts";
+import { DEFAULT_ALLOWED_COMMANDS, resolveAllowedCommands, resolveProfileCommands } from "./command-profiles.ts";
+import { isPathWithin, resolveConfiguredDirectory, resolveDirectoryMode } from "./path-validator.ts";
+
+// ワークスペースのルートに置くプロジェクトの設定ファイルの名前
+export const PROJECT_CONFIG_FILE_NAME = ".mcp-cmdex.toml";
+
+// 制限の強い順に並べたディレクトリモード
+const MODE_STRICTNESS: DirectoryMode[] = ["read-only", "no-delete", "read-write"];
+
+function stricterMode(a: DirectoryMode, b: DirectoryMode): DirectoryMode {
+  return MODE_STRICTNESS.indexOf(a) <= MODE_STRICTNESS.indexOf(b) ? a : b;
+}
+
+function minLimit(a: number | undefined, b: number | undefined): number | undefined {
+  return a === undefined ? b : b === undefined ? a : Math.min(a, b);
+}
+
+/**
+ * ユーザーの設定をプロジェクトの設定で狭める
+ *
+ * プロジェクトの設定は権限を狭める方向にだけ反映し、ユーザーの設定で許可されていない操作を許可することはない。
+ * - allowedDirectories: ユーザーの設定で許可されたディレクトリの中にあるものだけを残す
+ * - deniedPatterns, deniedCommands: ユーザーの設定に追加する
+ * - directoryModes: ユーザーの設定のモードと比べて制限の強い方を使う
+ * - profile: ユーザーの設定で許可されたコマンドのうち、プロファイルに含まれるものだけを許可する
+ * - execution: タイムアウトと出力の上限は小さい方を使う
+ */
+export async function narrowConfig(config: Config, project: ProjectConfig, projectRoot: string): Promise<Config> {
+  const resolve = (dir: string) => path.resolve(projectRoot, dir);
+  const narrowed: Config = { ...config };
+
+  if (project.allowedDirectories !== undefined) {
+    const userDirectories = await Promise.all(config.allowedDirectories.map(resolveConfiguredDirectory));
+    narrowed.allowedDirectories = [];
+    for (const dir of project.allowedDirectories.map(resolve)) {
+      const realDir = await resolveConfiguredDirectory(dir);
+      if (userDirectories.some((userDir) => isPathWithin(userDir, realDir))) {
+        narrowed.allowedDirectories.push(dir);
+      } else {
+        console.error(`ユーザーの設定で許可されていないため、プロジェクトの設定のディレクトリを無視します: ${dir}`);
+      }
+    }
+  }
+
+  if (project.deniedPatterns !== undefined) {
+    narrowed.deniedPatterns = [...(config.deniedPatterns ?? []), ...project.deniedPatterns];
+  }
+
+  if (project.directoryModes !== undefined) {
+    narrowed.directoryModes = { ...config.directoryModes };
+    for (const [dir, mode] of Object.entries(project.directoryModes)) {
+      const absolute = resolve(dir);
+      const { mode: userMode } = await resolveDirectoryMode(await resolveConfiguredDirectory(absolute), config);
+      narrowed.directoryModes[absolute] = stricterMode(mode, userMode);
+    }
+  }
+
+  const deniedCommands = new Set([...(config.deniedCommands ?? []), ...(project.deniedCommands ?? [])]);
+  if (project.profile !== undefined) {
+    // プロファイルの定義はユーザーの設定のものを使う
+    const profileCommands = resolveProfileCommands(project.profile, config);
+    for (const command of resolveAllowedCommands(config, DEFAULT_ALLOWED_COMMANDS)) {
+      if (!profileCommands.has(command)) {
+        deniedCommands.add(command);
+      }
+    }
+  }
+  if (deniedCommands.size > 0) {
+    narrowed.deniedCommands = [...deniedCommands];
+  }
+
+  if (project.execution !== undefined) {
+    narrowed.execution = {
+      ...config.execution,
+      timeoutMs: minLimit(config.execution?.timeoutMs, project.execution.timeoutMs),
+      maxOutputBytes: minLimit(config.execution?.maxOutputBytes, project.execution.maxOutputBytes),
+    };
+  }
+
+  return narrowed;
+}
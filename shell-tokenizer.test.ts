@@ -0,0 +1,63 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { quoteShellArg, ShellSyntaxError, tokenizeCommand } from "./shell-tokenizer.ts";
+
+// tokenizeCommand のテストケースを定義するインターフェース
+interface TokenizeTestCase {
+  name: string;
+  input: string;
+  expected: string[];
+}
+
+Deno.test("tokenizeCommand - クォートとエスケープを解釈して分割する", () => {
+  const testCases: TokenizeTestCase[] = [
+    { name: "空白区切り", input: "ls  -la\t/tmp", expected: ["ls", "-la", "/tmp"] },
+    { name: "シングルクォート", input: "grep 'foo bar' file.txt", expected: ["grep", "foo bar", "file.txt"] },
+    { name: "ダブルクォート", input: "grep \"foo bar\" file.txt", expected: ["grep", "foo bar", "file.txt"] },
+    { name: "隣接するクォートの連結", input: "echo 'a'\"b\"c", expected: ["echo", "abc"] },
+    { name: "空のクォート", input: "echo '' \"\"", expected: ["echo", "", ""] },
+    { name: "クォート外のエスケープ", input: "cat my\\ file.txt", expected: ["cat", "my file.txt"] },
+    { name: "ダブルクォート内のエスケープ", input: "echo \"say \\\"hi\\\" \\n\"", expected: ["echo", "say \"hi\" \\n"] },
+    { name: "シングルクォート内はすべてリテラル", input: "echo '$HOME | `x` \\'", expected: ["echo", "$HOME | `x` \\"] },
+    { name: "グロブは展開しない", input: "find . -name *.ts", expected: ["find", ".", "-name", "*.ts"] },
+    { name: "単独の$はリテラル", input: "echo $ \"cost: $\"", expected: ["echo", "$", "cost: $"] },
+    { name: "単語の途中の#はリテラル", input: "echo a#b", expected: ["echo", "a#b"] },
+    { name: "行の継続", input: "echo a\\\nb", expected: ["echo", "ab"] },
+    { name: "空文字列", input: "   ", expected: [] },
+  ];
+
+  for (const testCase of testCases) {
+    assertEquals(tokenizeCommand(testCase.input), testCase.expected, testCase.name);
+  }
+});
+
+Deno.test("tokenizeCommand - サポートしていない構文はエラーを投げる", () => {
+  const inputs = [
+    "cat file.txt | grep pattern",
+    "echo hi > out.txt",
+    "sort < in.txt",
+    "make && make install",
+    "ls; rm -rf /",
+    "echo `whoami`",
+    "echo $(whoami)",
+    "echo $HOME",
+    "echo \"${HOME}\"",
+    "echo 'unterminated",
+    "echo \"unterminated",
+    "echo trailing\\",
+    "echo # comment",
+  ];
+
+  for (const input of inputs) {
+    try {
+      tokenizeCommand(input);
+      assertEquals(true, false, `エラーにならずに分割されました: ${input}`);
+    } catch (error) {
+      assertEquals(error instanceof ShellSyntaxError, true, input);
+    }
+  }
+});
+
+Deno.test("quoteShellArg - 分割すると元の引数に戻る形でクォートする", () => {
+  const args = ["plain", "with space", "it's", "", "$HOME", "a|b"];
+  assertEquals(tokenizeCommand(args.map(quoteShellArg).join(" ")), args);
+});
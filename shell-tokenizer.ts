@@ -0,0 +1,124 @@
+/**
+ * サポートしていないシェル構文が含まれている場合のエラー
+ */
+export class ShellSyntaxError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} (位置 ${position})`);
+    this.name = "ShellSyntaxError";
+  }
+}
+
+// クォートの外に現れた場合にエラーとする演算子とその説明
+const UNSUPPORTED_OPERATORS: Record<string, string> = {
+  "|": "パイプ",
+  "&": "バックグラウンド実行・論理演算子",
+  ";": "コマンドの区切り",
+  "\n": "コマンドの区切り(改行)",
+  "<": "リダイレクト",
+  ">": "リダイレクト",
+  "(": "サブシェル",
+  ")": "サブシェル",
+  "`": "コマンド置換",
+};
+
+// ダブルクォート内でバックスラッシュによりエスケープできる文字
+const DOUBLE_QUOTE_ESCAPABLE = new Set(["\"", "\\", "$", "`"]);
+
+/**
+ * `$` が変数展開やコマンド置換の開始になっているか判定する
+ */
+function isExpansion(input: string, index: number): boolean {
+  return /^\$[A-Za-z_0-9{(@*#?!$-]/.test(input.slice(index, index + 2));
+}
+
+/**
+ * コマンド文字列をPOSIXシェルと同じ規則で引数に分割する
+ *
+ * クォートとバックスラッシュによるエスケープのみを解釈し、
+ * グロブ展開・変数展開・コマンド置換は行わない。
+ */
+export function tokenizeCommand(input: string): string[] {
+  const tokens: string[] = [];
+  let current = "";
+  // 空のクォート ('') も1つの引数として扱うため、トークンの開始を別に管理する
+  let inToken = false;
+  let i = 0;
+
+  const pushToken = () => {
+    if (inToken) {
+      tokens.push(current);
+    }
+    current = "";
+    inToken = false;
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (char === " " || char === "\t") {
+      pushToken();
+      i++;
+    } else if (char === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end === -1) {
+        throw new ShellSyntaxError("シングルクォートが閉じられていません", i);
+      }
+      current += input.slice(i + 1, end);
+      inToken = true;
+      i = end + 1;
+    } else if (char === "\"") {
+      inToken = true;
+      i++;
+      while (input[i] !== "\"") {
+        if (i >= input.length) {
+          throw new ShellSyntaxError("ダブルクォートが閉じられていません", i);
+        }
+        if (input[i] === "\\" && input[i + 1] === "\n") {
+          i += 2;
+        } else if (input[i] === "\\" && DOUBLE_QUOTE_ESCAPABLE.has(input[i + 1])) {
+          current += input[i + 1];
+          i += 2;
+        } else if (input[i] === "`" || (input[i] === "$" && isExpansion(input, i))) {
+          throw new ShellSyntaxError("変数展開・コマンド置換はサポートされていません", i);
+        } else {
+          current += input[i];
+          i++;
+        }
+      }
+      i++;
+    } else if (char === "\\") {
+      if (i + 1 >= input.length) {
+        throw new ShellSyntaxError("末尾のバックスラッシュでエスケープする文字がありません", i);
+      }
+      // バックスラッシュと改行の組み合わせは行の継続として取り除く
+      if (input[i + 1] !== "\n") {
+        current += input[i + 1];
+        inToken = true;
+      }
+      i += 2;
+    } else if (char in UNSUPPORTED_OPERATORS) {
+      throw new ShellSyntaxError(
+        `サポートされていないシェル構文です: ${UNSUPPORTED_OPERATORS[char]} '${char === "\n" ? "\\n" : char}'`,
+        i,
+      );
+    } else if (char === "$" && isExpansion(input, i)) {
+      throw new ShellSyntaxError("変数展開・コマンド置換はサポートされていません", i);
+    } else if (char === "#" && !inToken) {
+      throw new ShellSyntaxError("コメントはサポートされていません", i);
+    } else {
+      current += char;
+      inToken = true;
+      i++;
+    }
+  }
+  pushToken();
+
+  return tokens;
+}
+
+/**
+ * 引数をシェルにそのまま渡せる形にクォートする
+ */
+export function quoteShellArg(arg: string): string {
+  return /^[A-Za-z0-9_@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, "'\\''")}'`;
+}
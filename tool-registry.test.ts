@@ -0,0 +1,67 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { ErrorCode, McpError } from "npm:@modelcontextprotocol/sdk/types.js";
+import { textResult, ToolRegistry } from "./tool-registry.ts";
+import type { ToolContext, ToolDefinition } from "./tool-registry.ts";
+import { JobManager } from "./job-manager.ts";
+import { ChangeJournal } from "./change-journal.ts";
+import { AuditLog } from "./audit-log.ts";
+
+const context: ToolContext = {
+  jobs: new JobManager(),
+  changes: new ChangeJournal(),
+  audit: new AuditLog(),
+};
+
+const upperTool: ToolDefinition = {
+  name: "upper",
+  description: "文字列を大文字にします",
+  inputSchema: {
+    type: "object",
+    properties: {
+      text: { type: "string" },
+    },
+    required: ["text"],
+  },
+  handler(params) {
+    const { text } = params as { text: string };
+    return Promise.resolve(textResult(text.toUpperCase()));
+  },
+};
+
+Deno.test("ToolRegistry - 登録したツールのスキーマを一覧し、名前で実行する", async () => {
+  const registry = new ToolRegistry([upperTool]);
+  assertEquals(registry.list(), [
+    { name: "upper", description: upperTool.description, inputSchema: upperTool.inputSchema },
+  ]);
+  assertEquals(await registry.call("upper", { text: "abc" }, context), {
+    content: [{ type: "text", text: "ABC" }],
+  });
+
+  let duplicated = false;
+  try {
+    registry.register(upperTool);
+  } catch {
+    duplicated = true;
+  }
+  assertEquals(duplicated, true);
+});
+
+Deno.test("ToolRegistry - 不明なツールと実装のエラーをMcpErrorとして返す", async () => {
+  const registry = new ToolRegistry([
+    {
+      ...upperTool,
+      name: "broken",
+      handler: () => Promise.reject(new Error("壊れています")),
+    },
+  ]);
+
+  const codeOf = async (name: string) => {
+    try {
+      await registry.call(name, {}, context);
+    } catch (error) {
+      return error instanceof McpError ? [error.code, error.message.includes("壊れています")] : undefined;
+    }
+  };
+  assertEquals(await codeOf("missing"), [ErrorCode.MethodNotFound, false]);
+  assertEquals(await codeOf("broken"), [ErrorCode.InternalError, true]);
+});
@@ -0,0 +1,119 @@
+import { ErrorCode, McpError } from "npm:@modelcontextprotocol/sdk/types.js";
+import type { OutputListener } from "./command-executor.ts";
+import type { JobManager } from "./job-manager.ts";
+import type { ChangeJournal } from "./change-journal.ts";
+import type { AuditLog } from "./audit-log.ts";
+import type { ApprovalRecord } from "./approval.ts";
+
+/**
+ * ツールの入力のJSONスキーマ
+ */
+export type ToolInputSchema = {
+  type: "object";
+  properties: Record<string, unknown>;
+  required?: string[];
+};
+
+/**
+ * ツールの実行結果 (テキストと構造化データ)
+ */
+export type ToolResult = {
+  content: { type: "text"; text: string }[];
+  structuredContent?: object;
+  isError?: boolean;
+};
+
+/**
+ * ツールの実行時に渡されるサーバーの状態
+ */
+export interface ToolContext {
+  jobs: JobManager;
+  changes: ChangeJournal;
+  audit: AuditLog;
+  // 承認ルールに一致し、ユーザーが承認して実行した場合の確認結果
+  approval?: ApprovalRecord;
+  // ツールの中でユーザーに確認を求める関数 (ruleは監査ログに記録する確認の名前)
+  confirm?: (rule: string, message: string) => Promise<ApprovalRecord["decision"]>;
+  // リクエストのキャンセルを伝えるシグナル
+  signal?: AbortSignal;
+  // クライアントがprogressTokenを指定した場合に、出力を進捗通知として送る関数
+  onOutput?: OutputListener;
+}
+
+/**
+ * ツールの定義 (ListToolsで返すスキーマと実装)
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: ToolInputSchema;
+  handler(params: Record<string, unknown>, context: ToolContext): Promise<ToolResult>;
+}
+
+/**
+ * テキストと構造化データからツールの実行結果を作る
+ */
+export function textResult(text: string, structuredContent?: object): ToolResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text,
+      },
+    ],
+    ...(structuredContent !== undefined ? { structuredContent } : {}),
+  };
+}
+
+/**
+ * ツールを名前で登録し、ListToolsとCallToolの両方に使うクラス
+ */
+export class ToolRegistry {
+  private readonly tools = new Map<string, ToolDefinition>();
+
+  constructor(tools: ToolDefinition[] = []) {
+    for (const tool of tools) {
+      this.register(tool);
+    }
+  }
+
+  /**
+   * ツールを登録する (同じ名前のツールは登録できない)
+   */
+  register(tool: ToolDefinition): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`ツール '${tool.name}' は既に登録されています`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  /**
+   * 登録順にツールのスキーマを返す
+   */
+  list(): Omit<ToolDefinition, "handler">[] {
+    return [...this.tools.values()].map(({ name, description, inputSchema }) => ({ name, description, inputSchema }));
+  }
+
+  /**
+   * ツールを実行する
+   *
+   * McpError以外のエラーはInternalErrorに変換する。
+   */
+  async call(name: string, args: Record<string, unknown>, context: ToolContext): Promise<ToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new McpError(ErrorCode.MethodNotFound, `不明なツール: ${name}`);
+    }
+    try {
+      return await tool.handler(args, context);
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      throw new McpError(
+        ErrorCode.InternalError,
+        `エラー: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
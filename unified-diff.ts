@@ -0,0 +1,159 @@
+/**
+ * 行単位の差分の操作
+ */
+export interface DiffOperation {
+  type: "equal" | "delete" | "insert";
+  line: string;
+}
+
+// 差分の計算を打ち切る編集距離 (超えた場合は変更箇所全体を置き換えとして扱う)
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Myersのアルゴリズムで最短の編集手順を求める (編集距離が上限を超えた場合はundefined)
+ */
+function myersDiff(a: string[], b: string[]): DiffOperation[] | undefined {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // 各ステップ開始時の v のうち、k が -d-1 から d+1 の範囲を保存する
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 保存した経路をたどって編集手順を組み立てる
+ */
+function backtrack(a: string[], b: string[], trace: Int32Array[]): DiffOperation[] {
+  const operations: DiffOperation[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const get = (k: number) => trace[d][k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && get(k - 1) < get(k + 1)) ? k + 1 : k - 1;
+    const prevX = get(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      operations.push({ type: "equal", line: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        operations.push({ type: "insert", line: b[--y] });
+      } else {
+        operations.push({ type: "delete", line: a[--x] });
+      }
+    }
+  }
+  return operations.reverse();
+}
+
+/**
+ * 2つの行の配列の差分を求める
+ */
+export function diffLines(a: string[], b: string[]): DiffOperation[] {
+  // 先頭と末尾の共通部分は差分の計算から除く
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const middle = myersDiff(middleA, middleB) ?? [
+    ...middleA.map((line): DiffOperation => ({ type: "delete", line })),
+    ...middleB.map((line): DiffOperation => ({ type: "insert", line })),
+  ];
+
+  return [
+    ...a.slice(0, start).map((line): DiffOperation => ({ type: "equal", line })),
+    ...middle,
+    ...a.slice(endA).map((line): DiffOperation => ({ type: "equal", line })),
+  ];
+}
+
+/**
+ * テキストを行に分割する (末尾の改行による空行は含めない)
+ */
+function splitLines(text: string): string[] {
+  if (text.length === 0) {
+    return [];
+  }
+  const lines = text.split("\n");
+  return text.endsWith("\n") ? lines.slice(0, -1) : lines;
+}
+
+/**
+ * 2つのテキストの差分をunified diff形式で返す (差分がない場合は空文字列)
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldName: string,
+  newName = oldName,
+  context = 3
+): string {
+  const operations = diffLines(splitLines(oldText), splitLines(newText));
+  const changes = operations.flatMap((operation, index) => operation.type === "equal" ? [] : [index]);
+  if (changes.length === 0) {
+    return "";
+  }
+
+  // 前後の行が重なる変更は同じハンクにまとめる
+  const groups: [number, number][] = [];
+  for (const index of changes) {
+    const last = groups[groups.length - 1];
+    if (last && index - last[1] <= context * 2 + 1) {
+      last[1] = index;
+    } else {
+      groups.push([index, index]);
+    }
+  }
+
+  const lines = [`--- a/${oldName}`, `+++ b/${newName}`];
+  for (const [first, last] of groups) {
+    const start = Math.max(0, first - context);
+    const end = Math.min(operations.length, last + context + 1);
+    const before = operations.slice(0, start);
+    const hunk = operations.slice(start, end);
+    const oldStart = before.filter((operation) => operation.type !== "insert").length + 1;
+    const newStart = before.filter((operation) => operation.type !== "delete").length + 1;
+    const oldLength = hunk.filter((operation) => operation.type !== "insert").length;
+    const newLength = hunk.filter((operation) => operation.type !== "delete").length;
+
+    lines.push(
+      `@@ -${oldLength === 0 ? oldStart - 1 : oldStart},${oldLength} +${newLength === 0 ? newStart - 1 : newStart},${newLength} @@`,
+      ...hunk.map((operation) =>
+        `${operation.type === "equal" ? " " : operation.type === "delete" ? "-" : "+"}${operation.line}`
+      ),
+    );
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,50 @@
+import type { ToolDefinition } from "./tool-registry.ts";
+
+// 環境の確認などの補助的なツール
+export const utilityTools: ToolDefinition[] = [
+  {
+    name: "get_path",
+    description: "システムのPATH環境変数を表示します",
+    inputSchema: {
+      type: "object",
+      properties: {},
+      required: [],
+    },
+    handler() {
+      const path = Deno.env.get("PATH");
+      return Promise.resolve({
+        content: [
+          {
+            type: "text",
+            text: path || "PATH環境変数が設定されていません",
+          },
+        ],
+      });
+    },
+  },
+  {
+    name: "echo",
+    description: "入力された文字列をそのまま返します",
+    inputSchema: {
+      type: "object",
+      properties: {
+        text: {
+          type: "string",
+          description: "エコーする文字列",
+        },
+      },
+      required: ["text"],
+    },
+    handler(params) {
+      const { text } = params as { text: string };
+      return Promise.resolve({
+        content: [
+          {
+            type: "text",
+            text: text,
+          },
+        ],
+      });
+    },
+  },
+];